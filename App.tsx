@@ -1,16 +1,26 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { SpineLoaderService } from './services/spineService';
 import { SpineCanvas } from './components/SpineCanvas';
 import { Controls } from './components/Controls';
 import { FileDropZone } from './components/FileDropZone';
-import { SpineModel, UploadedFile, SpineLoadError, SpineDebugConfig } from './types';
-import { AlertTriangle } from 'lucide-react';
+import { SpineModel, UploadedFile, SpineLoadError, SpineDebugConfig, TrackConfig, MixConfig, ScaleMode, FramingBounds, AlphaMode, BudgetStore } from './types';
+import { getDefaultSkins } from './utils/spineHelpers';
+import { expandArchives } from './utils/fileHelpers';
+import { loadBudgetStore, saveBudgetStore, getActiveBudgetProject } from './utils/budgetRules';
+import { BudgetReportModal } from './components/BudgetReportModal';
+import { AlertTriangle, ClipboardCheck } from 'lucide-react';
 
 // Per-model state storage
 interface ModelState {
     animation: string;
+    skins: string[];
+    tracks: TrackConfig[];
+    mixConfig: MixConfig;
     timeScale: number;
     isLooping: boolean;
+    scaleMode: ScaleMode;
+    framingBounds: FramingBounds;
+    alphaMode: AlphaMode;
     debugConfig?: SpineDebugConfig;
 }
 
@@ -23,9 +33,15 @@ const App: React.FC = () => {
   const [modelStates, setModelStates] = useState<Record<number, ModelState>>({});
 
   const [currentAnimation, setCurrentAnimation] = useState<string>('');
+  const [selectedSkins, setSelectedSkins] = useState<string[]>([]);
+  const [tracks, setTracks] = useState<TrackConfig[]>([]);
+  const [mixConfig, setMixConfig] = useState<MixConfig>({ defaultMix: 0, mixes: {} });
   const [timeScale, setTimeScale] = useState<number>(1.0);
   const [isPlaying, setIsPlaying] = useState<boolean>(true);
   const [isLooping, setIsLooping] = useState<boolean>(true);
+  const [scaleMode, setScaleMode] = useState<ScaleMode>('fit');
+  const [framingBounds, setFramingBounds] = useState<FramingBounds>('setup');
+  const [alphaMode, setAlphaMode] = useState<AlphaMode>('auto');
   
   // Debug Configuration
   const [debugConfig, setDebugConfig] = useState<SpineDebugConfig>({
@@ -41,6 +57,27 @@ const App: React.FC = () => {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<SpineLoadError | null>(null);
   const [bgColor, setBgColor] = useState<string>('#18181b'); // Default zinc-900
+  const [lenientLoading, setLenientLoading] = useState<boolean>(false);
+
+  // Files of the current upload and hand-picked page images, kept so models can be rebuilt
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const [textureOverrides, setTextureOverrides] = useState<Record<string, string>>({});
+  // Models replaced by a reload, released once the canvas has switched to their replacements
+  const retiredModelsRef = useRef<SpineModel[]>([]);
+
+  useEffect(() => {
+    const retired = retiredModelsRef.current;
+    retiredModelsRef.current = [];
+    retired.forEach((model) => SpineLoaderService.disposeModel(model));
+  }, [loadedModels]);
+
+  // Budget rule sets per project, kept across sessions
+  const [budgetStore, setBudgetStore] = useState<BudgetStore>(loadBudgetStore);
+  const [isBudgetReportOpen, setIsBudgetReportOpen] = useState<boolean>(false);
+
+  useEffect(() => {
+    saveBudgetStore(budgetStore);
+  }, [budgetStore]);
 
   // Current Active Model Derived State
   const activeModel = loadedModels[activeModelIndex] || null;
@@ -49,8 +86,17 @@ const App: React.FC = () => {
     setIsLoading(true);
     setError(null);
     try {
-      const models = await SpineLoaderService.loadSpineFromFiles(files);
+      const expandedFiles = await expandArchives(files);
+      const { models, diagnostics } = await SpineLoaderService.loadSpineFromFiles(expandedFiles, { lenient: lenientLoading });
       setLoadedModels(models);
+      setUploadedFiles(expandedFiles);
+      setTextureOverrides({});
+      if (diagnostics.length > 0) {
+        setError({
+          message: `${diagnostics.length} 个骨架文件未能加载`,
+          details: SpineLoaderService.formatDiagnostics(diagnostics)
+        });
+      }
       setActiveModelIndex(0);
       setModelStates({}); // Reset saved states on new load
       
@@ -62,8 +108,14 @@ const App: React.FC = () => {
             : '';
           
           setCurrentAnimation(defaultAnim);
+          setSelectedSkins(getDefaultSkins(firstModel.spine.skeleton.data));
+          setTracks([]);
+          setMixConfig({ defaultMix: 0, mixes: {} });
           setTimeScale(1.0);
           setIsLooping(true);
+          setScaleMode('fit');
+          setFramingBounds('setup');
+          setAlphaMode('auto');
           // Reset debug
           setDebugConfig({
             bones: false, regions: false, meshHull: false, meshTriangles: false,
@@ -75,12 +127,35 @@ const App: React.FC = () => {
       console.error(err);
       setError({
         message: '加载 Spine 模型失败',
-        details: err.message || '请确保包含匹配 3.8 版本的 .skel, .atlas 和 .png 文件。'
+        details: err.message || '请确保包含匹配 3.8 版本的 .skel 或 .json, .atlas 和 .png 文件。'
       });
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [lenientLoading]);
+
+  // Rebind an atlas page of the active model to a hand-picked image. Only that model is rebuilt, so the
+  // other models and the per-model states are left as they are.
+  const handleTextureOverride = async (pageName: string, imagePath: string) => {
+    if (!activeModel) return;
+    const overrides = {
+      ...textureOverrides,
+      [SpineLoaderService.getTextureOverrideKey(activeModel.atlasPath, pageName)]: imagePath
+    };
+    setIsLoading(true);
+    try {
+      const model = await SpineLoaderService.reloadModel(uploadedFiles, activeModel, { lenient: lenientLoading, textureOverrides: overrides });
+      retiredModelsRef.current.push(activeModel);
+      setLoadedModels((models) => models.map((m) => (m === activeModel ? model : m)));
+      setTextureOverrides(overrides);
+      setError(null);
+    } catch (err: any) {
+      console.error(err);
+      setError({ message: '替换纹理失败', details: err.message });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   // Handle Model Switching
   const handleModelChange = (newIndex: number) => {
@@ -90,8 +165,14 @@ const App: React.FC = () => {
           // 1. Save current state
           const currentState: ModelState = {
               animation: currentAnimation,
+              skins: [...selectedSkins],
+              tracks: tracks.map(t => ({ ...t })),
+              mixConfig,
               timeScale,
               isLooping,
+              scaleMode,
+              framingBounds,
+              alphaMode,
               debugConfig: { ...debugConfig }
           };
           
@@ -106,8 +187,14 @@ const App: React.FC = () => {
 
           if (savedState) {
               setCurrentAnimation(savedState.animation);
+              setSelectedSkins(savedState.skins);
+              setTracks(savedState.tracks);
+              setMixConfig(savedState.mixConfig);
               setTimeScale(savedState.timeScale);
               setIsLooping(savedState.isLooping);
+              setScaleMode(savedState.scaleMode);
+              setFramingBounds(savedState.framingBounds);
+              setAlphaMode(savedState.alphaMode);
               if (savedState.debugConfig) {
                   setDebugConfig(savedState.debugConfig);
               }
@@ -117,8 +204,14 @@ const App: React.FC = () => {
                 ? (nextModel.animations.find(a => a.toLowerCase().includes('idle')) || nextModel.animations[0])
                 : '';
               setCurrentAnimation(defaultAnim);
+              setSelectedSkins(getDefaultSkins(nextModel.spine.skeleton.data));
+              setTracks([]);
+              setMixConfig({ defaultMix: 0, mixes: {} });
               setTimeScale(1.0);
               setIsLooping(true);
+              setScaleMode('fit');
+              setFramingBounds('setup');
+              setAlphaMode('auto');
               setDebugConfig({
                 bones: false, regions: false, meshHull: false, meshTriangles: false,
                 clipping: false, paths: false, boundingBoxes: false
@@ -135,6 +228,8 @@ const App: React.FC = () => {
       setLoadedModels([]);
       setActiveModelIndex(0);
       setModelStates({});
+      setUploadedFiles([]);
+      setTextureOverrides({});
   };
 
   return (
@@ -162,6 +257,17 @@ const App: React.FC = () => {
                     </button>
                 </div>
                 
+                {loadedModels.length > 0 && (
+                  <button
+                    onClick={() => setIsBudgetReportOpen(true)}
+                    className="flex items-center gap-1 text-xs text-zinc-300 hover:text-white transition-colors bg-zinc-800 px-2 py-1 rounded border border-zinc-700"
+                    title="按项目预算规则检查全部模型"
+                  >
+                    <ClipboardCheck size={12} />
+                    预算检查
+                  </button>
+                )}
+
                 {activeModel && (
                   <button 
                     onClick={handleClose}
@@ -179,10 +285,23 @@ const App: React.FC = () => {
             <SpineCanvas 
               spineModel={activeModel}
               animation={currentAnimation}
+              skins={selectedSkins}
+              tracks={tracks}
+              mixConfig={mixConfig}
               timeScale={isPlaying ? timeScale : 0}
               loop={isLooping}
               backgroundColor={bgColor}
               debugConfig={debugConfig}
+              scaleMode={scaleMode}
+              onScaleModeChange={setScaleMode}
+              framingBounds={framingBounds}
+              onFramingBoundsChange={setFramingBounds}
+              alphaMode={alphaMode}
+              onAlphaModeChange={setAlphaMode}
+              imagePaths={uploadedFiles.filter(f => ['png', 'jpg', 'jpeg'].includes(f.extension)).map(f => f.path)}
+              onTextureOverride={handleTextureOverride}
+              onRequestPause={() => setIsPlaying(false)}
+              budgetRules={getActiveBudgetProject(budgetStore).rules}
             />
           ) : (
             <div className="absolute inset-0 flex items-center justify-center p-8 z-20">
@@ -190,6 +309,8 @@ const App: React.FC = () => {
                     <FileDropZone 
                         onFilesLoaded={handleFilesLoaded}
                         isProcessing={isLoading}
+                        lenient={lenientLoading}
+                        onLenientChange={setLenientLoading}
                     />
                 </div>
             </div>
@@ -201,7 +322,7 @@ const App: React.FC = () => {
                 <AlertTriangle className="shrink-0 text-red-400" />
                 <div>
                     <h4 className="font-semibold">{error.message}</h4>
-                    <p className="text-sm text-red-200 mt-1">{error.details}</p>
+                    <p className="text-sm text-red-200 mt-1 whitespace-pre-line break-all">{error.details}</p>
                     <button 
                         onClick={() => setError(null)}
                         className="text-xs mt-3 underline hover:text-white"
@@ -214,6 +335,14 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      <BudgetReportModal
+        isOpen={isBudgetReportOpen}
+        onClose={() => setIsBudgetReportOpen(false)}
+        models={loadedModels}
+        store={budgetStore}
+        onStoreChange={setBudgetStore}
+      />
+
       {/* Sidebar Controls */}
       <Controls 
         models={loadedModels}
@@ -223,12 +352,19 @@ const App: React.FC = () => {
         animations={activeModel?.animations || []}
         currentAnimation={currentAnimation}
         onAnimationChange={setCurrentAnimation}
+        skins={activeModel?.skins || []}
+        selectedSkins={selectedSkins}
+        onSkinsChange={setSelectedSkins}
+        tracks={tracks}
+        onTracksChange={setTracks}
         isPlaying={isPlaying}
         onTogglePlay={handleTogglePlay}
         isLooping={isLooping}
         onToggleLoop={() => setIsLooping(!isLooping)}
         timeScale={timeScale}
         onTimeScaleChange={setTimeScale}
+        mixConfig={mixConfig}
+        onMixConfigChange={setMixConfig}
         spineModel={activeModel}
         
         debugConfig={debugConfig}
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitBranch, ChevronDown, ChevronUp, ChevronRight, Search } from 'lucide-react';
+import { Bone, Skeleton } from '@pixi-spine/runtime-3.8';
+import { getAnimatedBoneIndices } from '../utils/spineHelpers';
+
+interface BoneInspectorProps {
+  skeleton: Skeleton | null; // Live skeleton on the canvas
+  animation: string; // Track 0 animation, used to mark the bones it keys
+  selectedBone: string | null;
+  onSelectBone: (name: string | null) => void;
+}
+
+const formatValue = (value: number) => (Math.abs(value) < 5e-4 ? '0' : value.toFixed(3));
+
+// Live transform of the selected bone, re-read every frame while mounted
+const BoneTransform: React.FC<{ bone: Bone }> = ({ bone }) => {
+  const [, setFrame] = useState(0);
+
+  useEffect(() => {
+    let frameId = 0;
+    const poll = () => {
+      setFrame((f) => f + 1);
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, [bone]);
+
+  // PIXI matrices store the x axis in (a, b) and the y axis in (c, d); Spine names them a/c and b/d
+  const m = bone.matrix;
+  const rows: [string, [string, number][]][] = [
+    ['本地 (Local)', [
+      ['x', bone.x], ['y', bone.y], ['rotation', bone.rotation],
+      ['scaleX', bone.scaleX], ['scaleY', bone.scaleY], ['shearX', bone.shearX], ['shearY', bone.shearY],
+    ]],
+    ['世界 (World)', [
+      ['x', bone.worldX], ['y', bone.worldY], ['rotation', bone.getWorldRotationX()],
+      ['scaleX', bone.getWorldScaleX()], ['scaleY', bone.getWorldScaleY()],
+      ['a', m.a], ['b', m.c], ['c', m.b], ['d', m.d],
+    ]],
+  ];
+
+  return (
+    <div className="border-t border-zinc-800 p-2 space-y-2">
+      <div className="text-[10px] text-zinc-400 truncate">
+        <span className="text-indigo-300 font-semibold">{bone.data.name}</span>
+        {bone.parent && <span className="text-zinc-600"> ← {bone.parent.data.name}</span>}
+        <span className="text-zinc-600"> • 长度 {formatValue(bone.data.length)}</span>
+      </div>
+      {rows.map(([title, values]) => (
+        <div key={title}>
+          <div className="text-[10px] text-zinc-500 mb-0.5">{title}</div>
+          <div className="grid grid-cols-3 gap-x-2 gap-y-0.5 font-mono text-[10px]">
+            {values.map(([name, value]) => (
+              <div key={name} className="flex justify-between gap-1">
+                <span className="text-zinc-500">{name}</span>
+                <span className="text-zinc-200">{formatValue(value)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const BoneInspector: React.FC<BoneInspectorProps> = ({ skeleton, animation, selectedBone, onSelectBone }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setCollapsed(new Set());
+  }, [skeleton]);
+
+  const animated = useMemo(() => {
+    const anim = animation ? skeleton?.data.findAnimation(animation) : null;
+    return anim ? getAnimatedBoneIndices(anim) : new Set<number>();
+  }, [skeleton, animation]);
+
+  // With a filter, show matching bones plus their ancestors so the tree stays readable
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!skeleton || !query) return null;
+    const names = new Set<string>();
+    for (const bone of skeleton.bones) {
+      if (!bone.data.name.toLowerCase().includes(query)) continue;
+      for (let b: Bone | null = bone; b && !names.has(b.data.name); b = b.parent) {
+        names.add(b.data.name);
+      }
+    }
+    return names;
+  }, [skeleton, filter]);
+
+  if (!skeleton) return null;
+
+  const bone = selectedBone ? skeleton.findBone(selectedBone) : null;
+  const roots = skeleton.bones.filter((b) => !b.parent);
+
+  const toggleCollapsed = (name: string) => {
+    const next = new Set(collapsed);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    setCollapsed(next);
+  };
+
+  const renderNode = (node: Bone, depth: number): React.ReactNode => {
+    const name = node.data.name;
+    if (visible && !visible.has(name)) return null;
+    const isOpen = visible !== null || !collapsed.has(name);
+    const isSelected = name === selectedBone;
+    return (
+      <React.Fragment key={name}>
+        <div
+          onClick={() => onSelectBone(isSelected ? null : name)}
+          className={`flex items-center gap-1 pr-2 py-0.5 rounded cursor-pointer text-[10px] font-mono ${isSelected ? 'bg-indigo-600/40 text-white' : 'text-zinc-300 hover:bg-zinc-800'}`}
+          style={{ paddingLeft: depth * 10 + 4 }}
+        >
+          {node.children.length > 0 ? (
+            <button
+              onClick={(e) => { e.stopPropagation(); toggleCollapsed(name); }}
+              className="text-zinc-500 hover:text-white"
+            >
+              {isOpen ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
+            </button>
+          ) : (
+            <span className="w-[10px]" />
+          )}
+          <span className="truncate flex-1" title={name}>{name}</span>
+          {animated.has(node.data.index) && (
+            <span className="w-1.5 h-1.5 rounded-full bg-amber-400 shrink-0" title="当前动画直接驱动此骨骼" />
+          )}
+        </div>
+        {isOpen && node.children.map((child) => renderNode(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div
+      className="bg-zinc-950/80 backdrop-blur-md border border-zinc-700/50 rounded-xl shadow-2xl w-[320px] text-zinc-100 pointer-events-auto"
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800">
+        <div className="text-xs text-indigo-400 font-bold uppercase tracking-wider flex items-center gap-2">
+          <GitBranch size={12} /> 骨骼层级 (Bones)
+          <span className="text-zinc-500 font-mono normal-case">{skeleton.bones.length}</span>
+          {animated.size > 0 && (
+            <span className="text-amber-400/80 font-mono normal-case" title="当前动画直接驱动的骨骼数">● {animated.size}</span>
+          )}
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+          title={isExpanded ? '收起' : '展开'}
+        >
+          {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <>
+          <div className="px-2 pt-2">
+            <div className="flex items-center gap-1.5 bg-zinc-900 border border-zinc-800 rounded px-2 py-1">
+              <Search size={10} className="text-zinc-500" />
+              <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="搜索骨骼..."
+                className="flex-1 bg-transparent text-[10px] text-zinc-200 focus:outline-none"
+              />
+            </div>
+          </div>
+          <div className="max-h-56 overflow-y-auto custom-scrollbar p-2">
+            {visible && visible.size === 0 ? (
+              <div className="text-zinc-600 italic text-xs px-2 py-1">没有匹配的骨骼</div>
+            ) : (
+              roots.map((root) => renderNode(root, 0))
+            )}
+          </div>
+          {bone && <BoneTransform bone={bone} />}
+        </>
+      )}
+    </div>
+  );
+};
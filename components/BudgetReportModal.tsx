@@ -0,0 +1,353 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Download, Upload, Plus, Trash2, ArrowUp, ArrowDown, ClipboardCheck } from 'lucide-react';
+import { BudgetMetric, BudgetRule, BudgetStatus, BudgetStore, SpineModel } from '../types';
+import { downloadFile, formatBytes, readFileAsText } from '../utils/fileHelpers';
+import {
+  BUDGET_METRICS,
+  BUDGET_METRIC_LABELS,
+  BUDGET_STATUS_CLASSES,
+  BudgetMeasurement,
+  budgetReportToCsv,
+  checkModelBudget,
+  compareBudgetStatus,
+  createDefaultBudgetProject,
+  getActiveBudgetProject,
+  isRuleActive,
+  measureModelBudget,
+  parseBudgetProject,
+} from '../utils/budgetRules';
+
+interface BudgetReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  models: SpineModel[]; // Every model from the current upload
+  store: BudgetStore;
+  onStoreChange: (store: BudgetStore) => void;
+}
+
+const STATUS_BADGES: Record<BudgetStatus, { label: string; className: string }> = {
+  pass: { label: '通过', className: 'bg-emerald-900/40 text-emerald-300 border-emerald-500/40' },
+  warn: { label: '警告', className: 'bg-amber-900/40 text-amber-300 border-amber-500/40' },
+  fail: { label: '失败', className: 'bg-red-900/40 text-red-300 border-red-500/40' },
+};
+
+type SortKey = 'model' | 'status' | BudgetMetric;
+
+const formatMetric = (metric: BudgetMetric, value: number) => (metric === 'textureBytes' ? formatBytes(value) : String(value));
+
+export const BudgetReportModal: React.FC<BudgetReportModalProps> = ({
+  isOpen,
+  onClose,
+  models,
+  store,
+  onStoreChange
+}) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'status', descending: true });
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [measurements, setMeasurements] = useState<{ model: string; measurement: BudgetMeasurement }[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Measuring sweeps every animation of every model, so it only reruns when the upload changes
+  useEffect(() => {
+    setMeasurements([]);
+    if (!isOpen) return;
+    let cancelled = false;
+    const run = async () => {
+      const results: { model: string; measurement: BudgetMeasurement }[] = [];
+      setProgress({ done: 0, total: models.length });
+      for (const model of models) {
+        // Let the progress render between models
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (cancelled) return;
+        results.push({ model: model.name, measurement: measureModelBudget(model) });
+        setProgress({ done: results.length, total: models.length });
+      }
+      setMeasurements(results);
+      setProgress(null);
+    };
+    run();
+    return () => {
+      cancelled = true;
+      setProgress(null);
+    };
+  }, [models, isOpen]);
+
+  if (!isOpen) return null;
+
+  const project = getActiveBudgetProject(store);
+  const activeMetrics = project.rules.filter(isRuleActive).map((rule) => rule.metric);
+  const reports = measurements.map(({ model, measurement }) => checkModelBudget(model, measurement, project.rules));
+
+  const sortedReports = [...reports].sort((a, b) => {
+    let order: number;
+    if (sort.key === 'model') order = a.model.localeCompare(b.model);
+    else if (sort.key === 'status') order = compareBudgetStatus(a.status, b.status) || a.model.localeCompare(b.model);
+    else {
+      const key = sort.key;
+      order = (a.checks.find((c) => c.metric === key)?.value ?? 0) - (b.checks.find((c) => c.metric === key)?.value ?? 0);
+    }
+    return sort.descending ? -order : order;
+  });
+
+  const counts = reports.reduce((acc, report) => ({ ...acc, [report.status]: acc[report.status] + 1 }), { pass: 0, warn: 0, fail: 0 });
+
+  const updateProject = (changes: { name?: string; rules?: BudgetRule[] }) => {
+    const next = { ...project, ...changes };
+    onStoreChange({
+      activeProject: next.name,
+      projects: store.projects.map((p) => (p.name === project.name ? next : p)),
+    });
+  };
+
+  const setLimit = (metric: BudgetMetric, level: 'warn' | 'fail', value: string) => {
+    const limit = parseFloat(value);
+    updateProject({
+      rules: project.rules.map((rule) =>
+        rule.metric === metric ? { ...rule, [level]: value === '' || isNaN(limit) || limit < 0 ? null : limit } : rule
+      ),
+    });
+  };
+
+  const handleRename = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || store.projects.some((p) => p !== project && p.name === trimmed)) return;
+    updateProject({ name: trimmed });
+  };
+
+  const handleAddProject = () => {
+    let index = store.projects.length + 1;
+    while (store.projects.some((p) => p.name === `项目 ${index}`)) index++;
+    const next = createDefaultBudgetProject(`项目 ${index}`);
+    onStoreChange({ activeProject: next.name, projects: [...store.projects, next] });
+  };
+
+  const handleDeleteProject = () => {
+    const projects = store.projects.filter((p) => p !== project);
+    onStoreChange({ activeProject: projects[0].name, projects });
+  };
+
+  // An imported project replaces the saved one with the same name
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseBudgetProject(JSON.parse(await readFileAsText(file)));
+      const exists = store.projects.some((p) => p.name === imported.name);
+      onStoreChange({
+        activeProject: imported.name,
+        projects: exists ? store.projects.map((p) => (p.name === imported.name ? imported : p)) : [...store.projects, imported],
+      });
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message || '导入失败');
+    }
+  };
+
+  const handleExportRules = () => {
+    downloadFile(JSON.stringify(project, null, 2), `${project.name}_budget.json`, 'application/json');
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(budgetReportToCsv(sortedReports, activeMetrics), `${project.name}_budget_report.csv`, 'text/csv');
+  };
+
+  const handleExportJson = () => {
+    const json = { project: project.name, rules: project.rules.filter(isRuleActive), summary: counts, models: sortedReports };
+    downloadFile(JSON.stringify(json, null, 2), `${project.name}_budget_report.json`, 'application/json');
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => (current.key === key ? { key, descending: !current.descending } : { key, descending: key !== 'model' }));
+  };
+
+  const renderSortHeader = (sortKey: SortKey, label: string, align = 'text-left') => (
+    <th key={sortKey} className={`sticky top-0 bg-zinc-900 px-2 py-1.5 font-normal border-b border-zinc-800 ${align}`}>
+      <button onClick={() => toggleSort(sortKey)} className="inline-flex items-center gap-0.5 text-zinc-500 hover:text-white">
+        {label}
+        {sort.key === sortKey && (sort.descending ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl overflow-hidden w-[90vw] max-w-6xl h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div>
+            <h3 className="text-lg font-bold text-white flex items-center gap-2"><ClipboardCheck size={18} /> 预算检查 (Budget Lint)</h3>
+            <p className="text-xs text-zinc-500">
+              {models.length} 个模型 • 渲染指标取初始姿势与所有动画逐帧的峰值 (默认皮肤)
+              {progress && <span className="ml-2 text-zinc-400 font-mono">测量中 {progress.done} / {progress.total}</span>}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleExportCsv}
+              disabled={reports.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-zinc-800 text-zinc-300 hover:text-white hover:bg-zinc-700 text-xs disabled:opacity-40"
+            >
+              <Download size={14} /> 导出 CSV
+            </button>
+            <button
+              onClick={handleExportJson}
+              disabled={reports.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-zinc-800 text-zinc-300 hover:text-white hover:bg-zinc-700 text-xs disabled:opacity-40"
+            >
+              <Download size={14} /> 导出 JSON
+            </button>
+            <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0 text-xs">
+          {/* Rules */}
+          <div className="w-72 shrink-0 border-r border-zinc-800 flex flex-col">
+            <div className="px-4 py-3 border-b border-zinc-800 space-y-2">
+              <div className="flex items-center gap-1.5">
+                <select
+                  value={project.name}
+                  onChange={(e) => onStoreChange({ ...store, activeProject: e.target.value })}
+                  className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-zinc-200 focus:outline-none"
+                >
+                  {store.projects.map((p) => (
+                    <option key={p.name} value={p.name}>{p.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAddProject}
+                  className="p-1.5 rounded border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-800"
+                  title="新建项目 (默认规则)"
+                >
+                  <Plus size={12} />
+                </button>
+                <button
+                  onClick={handleDeleteProject}
+                  disabled={store.projects.length <= 1}
+                  className="p-1.5 rounded border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-800 disabled:opacity-40"
+                  title="删除项目"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              <input
+                key={project.name}
+                defaultValue={project.name}
+                onBlur={(e) => handleRename(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-full bg-zinc-950 border border-zinc-700 text-zinc-200 rounded px-2 py-1 focus:outline-none focus:border-indigo-500"
+                title="项目名称 (不可重名)"
+              />
+              <div className="flex items-center gap-1.5">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+                >
+                  <Upload size={12} /> 导入规则
+                </button>
+                <button
+                  onClick={handleExportRules}
+                  className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+                >
+                  <Download size={12} /> 导出规则
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+              </div>
+              {importError && <div className="text-red-400">{importError}</div>}
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar px-4 py-3">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-zinc-500 text-left">
+                    <th className="pb-1 font-normal">指标</th>
+                    <th className="pb-1 font-normal text-amber-400">警告 &gt;</th>
+                    <th className="pb-1 font-normal text-red-400">失败 &gt;</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {BUDGET_METRICS.map((metric) => {
+                    const rule = project.rules.find((r) => r.metric === metric);
+                    return (
+                      <tr key={metric}>
+                        <td className="py-0.5 pr-2 text-zinc-300">{BUDGET_METRIC_LABELS[metric]}</td>
+                        {(['warn', 'fail'] as const).map((level) => (
+                          <td key={level} className="py-0.5 pr-1">
+                            <input
+                              type="number"
+                              min="0"
+                              value={rule?.[level] ?? ''}
+                              onChange={(e) => setLimit(metric, level, e.target.value)}
+                              placeholder="关闭"
+                              className="w-20 bg-zinc-950 border border-zinc-700 text-zinc-200 rounded px-1.5 py-0.5 font-mono focus:outline-none focus:border-indigo-500"
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="text-[10px] text-zinc-600 mt-2">* 留空关闭该级别。规则保存在本地浏览器中。</p>
+            </div>
+          </div>
+
+          {/* Report */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="flex items-center gap-4 px-6 py-3 border-b border-zinc-800">
+              {(['pass', 'warn', 'fail'] as const).map((status) => (
+                <span key={status} className={`px-2 py-0.5 rounded border ${STATUS_BADGES[status].className}`}>
+                  {STATUS_BADGES[status].label} <span className="font-mono">{counts[status]}</span>
+                </span>
+              ))}
+            </div>
+            <div className="flex-1 overflow-auto custom-scrollbar">
+              {activeMetrics.length === 0 ? (
+                <div className="text-zinc-600 p-6">当前项目没有启用任何规则。</div>
+              ) : (
+                <table className="w-full">
+                  <thead>
+                    <tr>
+                      {renderSortHeader('model', '模型')}
+                      {renderSortHeader('status', '结果')}
+                      {activeMetrics.map((metric) => renderSortHeader(metric, BUDGET_METRIC_LABELS[metric], 'text-right'))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedReports.map((report, i) => (
+                      <tr key={i} className="border-b border-zinc-800/50 hover:bg-zinc-800/40">
+                        <td className="px-2 py-1 text-zinc-200 truncate max-w-[200px]" title={report.model}>{report.model}</td>
+                        <td className="px-2 py-1">
+                          <span className={`px-1.5 py-0.5 rounded border text-[10px] ${STATUS_BADGES[report.status].className}`}>
+                            {STATUS_BADGES[report.status].label}
+                          </span>
+                        </td>
+                        {report.checks.map((check) => (
+                          <td
+                            key={check.metric}
+                            className={`px-2 py-1 font-mono text-right ${BUDGET_STATUS_CLASSES[check.status] || 'text-zinc-400'}`}
+                            title={check.subject}
+                          >
+                            {formatMetric(check.metric, check.value)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
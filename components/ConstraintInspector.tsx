@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { Link2, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { PositionMode } from '@pixi-spine/base';
+import { IkConstraint, PathConstraint, Skeleton, SpacingMode, TransformConstraint } from '@pixi-spine/runtime-3.8';
+import { ConstraintKind, ConstraintOverride } from '../types';
+import { getConstraintKey } from '../utils/spineHelpers';
+
+interface ConstraintInspectorProps {
+  skeleton: Skeleton | null; // Live skeleton on the canvas
+  overrides: Record<string, ConstraintOverride>; // Keyed by getConstraintKey
+  onChange: (key: string, override: ConstraintOverride | null) => void; // null removes the override
+}
+
+// A slider (or for bendDirection, a toggle) for one constraint property, with its current value
+interface Field {
+  property: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const MIX_FIELD = (property: string, label: string, value: number): Field => ({ property, label, value, min: 0, max: 1, step: 0.01 });
+
+const KIND_LABELS: Record<ConstraintKind, string> = {
+  ik: 'IK',
+  transform: '变换',
+  path: '路径',
+};
+
+// Range for path position/spacing: percentages are 0..1, other modes are lengths in skeleton units
+const lengthField = (property: string, label: string, percent: boolean, value: number, dataValue: number): Field => {
+  if (percent) return { property, label, value, min: 0, max: 1, step: 0.01 };
+  const extent = Math.max(100, Math.ceil(Math.abs(dataValue) * 2), Math.ceil(Math.abs(value)));
+  return { property, label, value, min: property === 'spacing' ? 0 : -extent, max: extent, step: 1 };
+};
+
+interface ConstraintEntry {
+  kind: ConstraintKind;
+  constraint: IkConstraint | TransformConstraint | PathConstraint;
+  target: string;
+  fields: Field[];
+}
+
+const collectConstraints = (skeleton: Skeleton): ConstraintEntry[] => [
+  ...skeleton.ikConstraints.map((c) => ({
+    kind: 'ik' as const,
+    constraint: c,
+    target: c.target.data.name,
+    fields: [
+      MIX_FIELD('mix', 'mix', c.mix),
+      { property: 'softness', label: 'softness', value: c.softness, min: 0, max: Math.max(100, Math.ceil(c.data.softness * 2)), step: 1 },
+      { property: 'bendDirection', label: 'bend', value: c.bendDirection, min: -1, max: 1, step: 2 },
+    ],
+  })),
+  ...skeleton.transformConstraints.map((c) => ({
+    kind: 'transform' as const,
+    constraint: c,
+    target: c.target.data.name,
+    fields: [
+      MIX_FIELD('rotateMix', 'rotate', c.rotateMix),
+      MIX_FIELD('translateMix', 'translate', c.translateMix),
+      MIX_FIELD('scaleMix', 'scale', c.scaleMix),
+      MIX_FIELD('shearMix', 'shear', c.shearMix),
+    ],
+  })),
+  ...skeleton.pathConstraints.map((c) => ({
+    kind: 'path' as const,
+    constraint: c,
+    target: c.target.data.name,
+    fields: [
+      lengthField('position', 'position', c.data.positionMode === PositionMode.Percent, c.position, c.data.position),
+      lengthField('spacing', 'spacing', c.data.spacingMode === SpacingMode.Percent, c.spacing, c.data.spacing),
+      MIX_FIELD('rotateMix', 'rotate', c.rotateMix),
+      MIX_FIELD('translateMix', 'translate', c.translateMix),
+    ],
+  })),
+].sort((a, b) => a.constraint.data.order - b.constraint.data.order);
+
+const formatValue = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(2));
+
+export const ConstraintInspector: React.FC<ConstraintInspectorProps> = ({ skeleton, overrides, onChange }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [, setFrame] = useState(0);
+
+  // Current values change every frame while animations key them
+  useEffect(() => {
+    if (!skeleton || !isExpanded) return;
+    let frameId = 0;
+    const poll = () => {
+      setFrame((f) => f + 1);
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, [skeleton, isExpanded]);
+
+  if (!skeleton) return null;
+
+  const entries = collectConstraints(skeleton);
+  if (entries.length === 0) return null;
+
+  const overrideCount = Object.keys(overrides).length;
+
+  return (
+    <div
+      className="bg-zinc-950/80 backdrop-blur-md border border-zinc-700/50 rounded-xl shadow-2xl w-[320px] text-zinc-100 pointer-events-auto"
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800">
+        <div className="text-xs text-purple-400 font-bold uppercase tracking-wider flex items-center gap-2">
+          <Link2 size={12} /> 约束 (Constraints)
+          <span className="text-zinc-500 font-mono normal-case">{entries.length}</span>
+          {overrideCount > 0 && (
+            <span className="text-purple-300 font-mono normal-case" title="被手动覆盖的约束数">✎ {overrideCount}</span>
+          )}
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+          title={isExpanded ? '收起' : '展开'}
+        >
+          {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="max-h-72 overflow-y-auto custom-scrollbar p-2 space-y-1.5">
+          {entries.map(({ kind, constraint, target, fields }) => {
+            const name = constraint.data.name;
+            const boneNames = constraint.bones.map((bone) => bone.data.name).join(', ');
+            const key = getConstraintKey(kind, name);
+            const override = overrides[key];
+            const disabled = !!override?.disabled;
+
+            const update = (next: ConstraintOverride) =>
+              onChange(key, next.disabled || Object.keys(next.values).length > 0 ? next : null);
+            const setValue = (property: string, value: number) =>
+              update({ disabled, values: { ...override?.values, [property]: value } });
+            const clearValue = (property: string) => {
+              const { [property]: _, ...values } = override?.values || {};
+              update({ disabled, values });
+            };
+
+            return (
+              <div key={key} className={`bg-zinc-900/60 rounded px-2 py-1.5 text-[10px] ${disabled ? 'opacity-60' : ''}`}>
+                <div className="flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={!disabled}
+                    onChange={() => update({ disabled: !disabled, values: override?.values || {} })}
+                    className="rounded bg-zinc-800 border-zinc-700 text-purple-600 focus:ring-0"
+                    title={disabled ? '启用约束' : '禁用约束 (混合值归零)'}
+                  />
+                  <span className="px-1 rounded bg-purple-900/40 text-purple-200 shrink-0">{KIND_LABELS[kind]}</span>
+                  <span className="font-mono text-zinc-200 truncate flex-1" title={name}>{name}</span>
+                  <span className="font-mono text-zinc-500 shrink-0" title="更新顺序 (Order)">#{constraint.data.order}</span>
+                  {override && (
+                    <button
+                      onClick={() => onChange(key, null)}
+                      className="text-zinc-500 hover:text-white shrink-0"
+                      title="恢复为动画/初始值"
+                    >
+                      <RotateCcw size={10} />
+                    </button>
+                  )}
+                </div>
+                <div className="font-mono text-zinc-500 truncate mt-0.5" title={boneNames}>
+                  {boneNames} → <span className="text-zinc-400">{target}</span>
+                </div>
+                <div className="mt-1 space-y-0.5">
+                  {fields.map((field) => {
+                    const isOverridden = override?.values[field.property] !== undefined;
+                    const value = field.value;
+                    return (
+                      <div key={field.property} className="flex items-center gap-2 font-mono">
+                        <span className={`w-14 shrink-0 ${isOverridden ? 'text-purple-300' : 'text-zinc-500'}`}>{field.label}</span>
+                        {field.property === 'bendDirection' ? (
+                          <button
+                            onClick={() => setValue('bendDirection', value >= 0 ? -1 : 1)}
+                            className="flex-1 text-left px-1.5 rounded bg-zinc-800 text-zinc-300 hover:text-white"
+                          >
+                            {value >= 0 ? '+1 (正向)' : '-1 (反向)'}
+                          </button>
+                        ) : (
+                          <input
+                            type="range"
+                            min={field.min}
+                            max={field.max}
+                            step={field.step}
+                            value={value}
+                            onChange={(e) => setValue(field.property, parseFloat(e.target.value))}
+                            className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                          />
+                        )}
+                        <span className="w-10 text-right text-zinc-300">{formatValue(value)}</span>
+                        <button
+                          onClick={() => clearValue(field.property)}
+                          className={`text-zinc-500 hover:text-white ${isOverridden ? '' : 'invisible'}`}
+                          title="恢复此项"
+                        >
+                          <RotateCcw size={9} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,12 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { Play, Pause, AlertCircle, Layers, Repeat, Box, Search, X, Bug } from 'lucide-react';
-import { SpineModel, SpineDebugConfig } from '../types';
+import { Play, Pause, AlertCircle, Layers, Repeat, Box, Search, X, Bug, Shirt, Shuffle } from 'lucide-react';
+import { SpineModel, SpineDebugConfig, TrackConfig, MixConfig } from '../types';
+import { TrackPanel } from './TrackPanel';
+import { MixMatrixModal } from './MixMatrixModal';
+import { countMixEntries } from '../utils/spineHelpers';
+
+// Slider range for the default mix; longer durations set in the mix editor or imported extend it so they are never clamped
+const DEFAULT_MIX_SLIDER_MAX = 2;
 
 interface ControlsProps {
   // Model selection
@@ -11,12 +17,19 @@ interface ControlsProps {
   animations: string[];
   currentAnimation: string;
   onAnimationChange: (anim: string) => void;
+  skins: string[];
+  selectedSkins: string[];
+  onSkinsChange: (skins: string[]) => void;
+  tracks: TrackConfig[];
+  onTracksChange: (tracks: TrackConfig[]) => void;
   isPlaying: boolean;
   onTogglePlay: () => void;
   isLooping: boolean;
   onToggleLoop: () => void;
   timeScale: number;
   onTimeScaleChange: (scale: number) => void;
+  mixConfig: MixConfig;
+  onMixConfigChange: (config: MixConfig) => void;
   spineModel: SpineModel | null;
 
   // Debug
@@ -31,18 +44,26 @@ export const Controls: React.FC<ControlsProps> = ({
   animations,
   currentAnimation,
   onAnimationChange,
+  skins,
+  selectedSkins,
+  onSkinsChange,
+  tracks,
+  onTracksChange,
   isPlaying,
   onTogglePlay,
   isLooping,
   onToggleLoop,
   timeScale,
   onTimeScaleChange,
+  mixConfig,
+  onMixConfigChange,
   spineModel,
   debugConfig,
   onDebugConfigChange
 }) => {
   const activeAnimRef = useRef<HTMLButtonElement>(null);
   const [modelSearch, setModelSearch] = useState('');
+  const [isMixEditorOpen, setIsMixEditorOpen] = useState(false);
 
   // Auto-scroll to active animation when the list changes or selection changes
   useEffect(() => {
@@ -58,6 +79,14 @@ export const Controls: React.FC<ControlsProps> = ({
       .filter(item => item.model.name.toLowerCase().includes(modelSearch.toLowerCase()));
   }, [models, modelSearch]);
 
+  // Checkbox toggles a skin in/out of the combined selection, keeping skeleton order
+  const toggleSkin = (skin: string) => {
+    const next = selectedSkins.includes(skin)
+        ? selectedSkins.filter(s => s !== skin)
+        : skins.filter(s => s === skin || selectedSkins.includes(s));
+    onSkinsChange(next);
+  };
+
   const toggleDebug = (key: keyof SpineDebugConfig) => {
     onDebugConfigChange({
         ...debugConfig,
@@ -122,7 +151,7 @@ export const Controls: React.FC<ControlsProps> = ({
                             <div className="flex flex-col overflow-hidden">
                                 <span className="truncate font-medium">{model.name}</span>
                                 <span className="text-[10px] text-zinc-600 truncate">
-                                    {model.animations.length} 动作 • {model.skins.length} 皮肤
+                                    {model.format === 'json' ? 'JSON' : 'SKEL'} • {model.animations.length} 动作 • {model.skins.length} 皮肤
                                 </span>
                             </div>
                             {isActive && <div className="w-1.5 h-1.5 rounded-full bg-indigo-500 shadow-[0_0_5px_rgba(99,102,241,0.5)] flex-shrink-0 ml-2"></div>}
@@ -178,6 +207,59 @@ export const Controls: React.FC<ControlsProps> = ({
           </div>
         </div>
 
+        {/* Layered Tracks */}
+        {animations.length > 0 && (
+            <TrackPanel
+                animations={animations}
+                baseAnimation={currentAnimation}
+                tracks={tracks}
+                onTracksChange={onTracksChange}
+            />
+        )}
+
+        {/* Skins List */}
+        {skins.length > 0 && (
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                        <Shirt size={14} /> 皮肤 ({skins.length})
+                    </h3>
+                    {selectedSkins.length > 1 && (
+                        <span className="text-[10px] text-indigo-400">组合 {selectedSkins.length} 个皮肤</span>
+                    )}
+                </div>
+
+                <div className="space-y-1 max-h-48 overflow-y-auto pr-2 custom-scrollbar bg-zinc-950/30 p-2 rounded-lg border border-zinc-800/50">
+                    {skins.map((skin) => {
+                        const isSelected = selectedSkins.includes(skin);
+                        return (
+                            <div
+                                key={skin}
+                                className={`flex items-center gap-2 px-2 py-1.5 rounded-md transition-all text-xs
+                                    ${isSelected ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:bg-zinc-800/50 hover:text-zinc-200'}
+                                `}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={isSelected}
+                                    onChange={() => toggleSkin(skin)}
+                                    title="加入组合皮肤"
+                                    className="rounded bg-zinc-800 border-zinc-700 text-indigo-600 focus:ring-indigo-500 focus:ring-offset-zinc-900"
+                                />
+                                <button
+                                    onClick={() => onSkinsChange([skin])}
+                                    className="flex-1 text-left truncate"
+                                    title={skin}
+                                >
+                                    {skin}
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        )}
+
         {/* Playback Controls */}
         <div className="space-y-4 pt-4 border-t border-zinc-800">
             <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">播放控制</h3>
@@ -232,6 +314,30 @@ export const Controls: React.FC<ControlsProps> = ({
                   ))}
                 </div>
             </div>
+
+            {/* Crossfade */}
+            <div className="space-y-3">
+                <div className="flex justify-between text-xs text-zinc-400">
+                    <span>默认过渡 (Mix)</span>
+                    <span className="font-mono">{mixConfig.defaultMix.toFixed(2)}s</span>
+                </div>
+                <input
+                    type="range"
+                    min="0"
+                    max={Math.max(DEFAULT_MIX_SLIDER_MAX, Math.ceil(mixConfig.defaultMix))}
+                    step="0.05"
+                    value={mixConfig.defaultMix}
+                    onChange={(e) => onMixConfigChange({ ...mixConfig, defaultMix: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                />
+                <button
+                    onClick={() => setIsMixEditorOpen(true)}
+                    disabled={animations.length === 0}
+                    className="w-full flex items-center justify-center gap-2 py-1.5 rounded-md border border-zinc-700 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-40"
+                >
+                    <Shuffle size={12} /> 编辑过渡矩阵 ({countMixEntries(mixConfig)})
+                </button>
+            </div>
         </div>
 
         {/* Debug Controls */}
@@ -273,10 +379,19 @@ export const Controls: React.FC<ControlsProps> = ({
 
       </div>
 
+      <MixMatrixModal
+        isOpen={isMixEditorOpen}
+        onClose={() => setIsMixEditorOpen(false)}
+        modelName={spineModel?.name || ''}
+        animations={animations}
+        config={mixConfig}
+        onConfigChange={onMixConfigChange}
+      />
+
       {/* Footer info */}
       <div className="p-4 border-t border-zinc-800 text-[10px] text-zinc-600 flex items-center gap-2">
           <AlertCircle size={12} />
-          <span>支持 Spine 3.8 (.skel 二进制)</span>
+          <span>支持 Spine 3.8 (.skel 二进制 / .json)</span>
       </div>
     </div>
   );
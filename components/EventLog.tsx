@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Zap, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+
+export interface SpineEventRecord {
+  id: number;
+  timestamp: number; // Wall clock (Date.now())
+  trackIndex: number;
+  animation: string;
+  time: number; // Event key time within the animation
+  name: string;
+  intValue: number;
+  floatValue: number;
+  stringValue: string;
+  audioPath: string;
+  volume: number;
+  balance: number;
+}
+
+interface EventLogProps {
+  events: SpineEventRecord[];
+  onClear: () => void;
+}
+
+const formatTimestamp = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+};
+
+export const EventLog: React.FC<EventLogProps> = ({ events, onClear }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest event in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [events, isExpanded]);
+
+  return (
+    <div
+      className="bg-zinc-950/80 backdrop-blur-md border border-zinc-700/50 rounded-xl shadow-2xl w-[320px] text-zinc-100 pointer-events-auto"
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800">
+        <div className="text-xs text-amber-400 font-bold uppercase tracking-wider flex items-center gap-2">
+          <Zap size={12} /> 事件日志 (Events)
+          <span className="text-zinc-500 font-mono normal-case">{events.length}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onClear}
+            disabled={events.length === 0}
+            className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors disabled:opacity-30"
+            title="清空"
+          >
+            <Trash2 size={12} />
+          </button>
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+            title={isExpanded ? '收起' : '展开'}
+          >
+            {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div ref={listRef} className="max-h-56 overflow-y-auto custom-scrollbar p-2 space-y-1">
+          {events.length === 0 ? (
+            <div className="text-zinc-600 italic text-xs px-2 py-1">暂无事件触发</div>
+          ) : (
+            events.map((ev) => (
+              <div key={ev.id} className="text-[10px] font-mono bg-zinc-900/60 rounded px-2 py-1">
+                <div className="flex justify-between gap-2">
+                  <span className="text-amber-300 font-semibold truncate" title={ev.name}>{ev.name}</span>
+                  <span className="text-zinc-500 shrink-0">{formatTimestamp(ev.timestamp)}</span>
+                </div>
+                <div className="text-zinc-500 truncate" title={ev.animation}>
+                  #{ev.trackIndex} {ev.animation} @ {ev.time.toFixed(3)}s
+                </div>
+                <div className="text-zinc-400 flex flex-wrap gap-x-2">
+                  <span>int: {ev.intValue}</span>
+                  <span>float: {ev.floatValue}</span>
+                  {ev.stringValue && <span className="truncate" title={ev.stringValue}>str: "{ev.stringValue}"</span>}
+                  {ev.audioPath && (
+                    <span className="truncate" title={ev.audioPath}>
+                      audio: {ev.audioPath} (vol {ev.volume}, bal {ev.balance})
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
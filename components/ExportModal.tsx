@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import * as PIXI from 'pixi.js';
+import { X, Download } from 'lucide-react';
+import { ExportService, CaptureSource, FrameCaptureOptions } from '../services/exportService';
+import { downloadFile } from '../utils/fileHelpers';
+
+type ExportFormat = 'sequence' | 'spritesheet' | 'gif' | 'apng';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  getRenderer: () => PIXI.Renderer | null;
+  source: CaptureSource | null;
+  defaultFps: number;
+  backgroundColor: string; // Live view background, 'transparent' or hex
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  sequence: 'PNG 序列 (.zip)',
+  spritesheet: '精灵图集 + JSON (.zip)',
+  gif: '动图 GIF (.gif)',
+  apng: '动图 APNG (.png)',
+};
+
+const PALETTE_SIZES = [256, 128, 64, 32, 16];
+
+export const ExportModal: React.FC<ExportModalProps> = ({
+  isOpen,
+  onClose,
+  getRenderer,
+  source,
+  defaultFps,
+  backgroundColor
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('sequence');
+  const [fps, setFps] = useState(defaultFps);
+  const [scale, setScale] = useState(1);
+  const [padding, setPadding] = useState(4);
+  const [trim, setTrim] = useState(true);
+  const [width, setWidth] = useState(512);
+  const [height, setHeight] = useState(512);
+  const [transparent, setTransparent] = useState(backgroundColor === 'transparent');
+  const [maxColors, setMaxColors] = useState(256);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Pick up the live settings each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setFps(defaultFps);
+      setTransparent(backgroundColor === 'transparent');
+      setExportError(null);
+    }
+  }, [isOpen, defaultFps, backgroundColor]);
+
+  if (!isOpen) return null;
+
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    const renderer = getRenderer();
+    if (!renderer || !source) return;
+
+    const options: FrameCaptureOptions = {
+      fps: Math.max(1, fps),
+      scale: Math.max(0.01, scale),
+      padding: Math.max(0, padding),
+      trim,
+      width,
+      height,
+      backgroundColor: transparent || backgroundColor === 'transparent' ? null : backgroundColor,
+    };
+
+    setExportError(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const onProgress = (done: number, total: number) => setProgress({ done, total });
+      const prefix = ExportService.getFilePrefix(source);
+      if (format === 'sequence') {
+        const blob = await ExportService.exportPngSequence(renderer, source, options, onProgress);
+        downloadFile(blob, `${prefix}_frames.zip`);
+      } else if (format === 'spritesheet') {
+        const blob = await ExportService.exportSpriteSheet(renderer, source, options, onProgress);
+        downloadFile(blob, `${prefix}_sheet.zip`);
+      } else if (format === 'gif') {
+        const blob = await ExportService.exportGif(renderer, source, options, maxColors, onProgress);
+        downloadFile(blob, `${prefix}.gif`);
+      } else {
+        const blob = await ExportService.exportApng(renderer, source, options, onProgress);
+        downloadFile(blob, `${prefix}.png`);
+      }
+    } catch (err: any) {
+      console.error(err);
+      setExportError(err.message || '导出失败');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const inputClass = 'w-20 bg-zinc-950 border border-zinc-700 text-zinc-200 rounded px-2 py-1 font-mono focus:outline-none focus:border-indigo-500 disabled:opacity-40';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={isExporting ? undefined : onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl w-[420px] p-6 flex flex-col gap-5 relative text-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button onClick={onClose} disabled={isExporting} className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-300 disabled:opacity-30">
+          <X size={20} />
+        </button>
+
+        <div>
+          <h3 className="text-lg font-bold text-white mb-1">导出帧 (Export)</h3>
+          <p className="text-xs text-zinc-500 truncate" title={source?.animation}>
+            {source ? `${source.name} • ${source.animation}` : '未选择动作'}
+          </p>
+        </div>
+
+        <div className="space-y-3 text-xs text-zinc-400">
+          <label className="flex items-center justify-between">
+            格式
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="bg-zinc-950 border border-zinc-700 text-zinc-200 rounded px-2 py-1 focus:outline-none focus:border-indigo-500"
+            >
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((f) => (
+                <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+              ))}
+            </select>
+          </label>
+          {format === 'gif' && (
+            <label className="flex items-center justify-between">
+              调色板颜色数
+              <select
+                value={maxColors}
+                onChange={(e) => setMaxColors(parseInt(e.target.value))}
+                className="bg-zinc-950 border border-zinc-700 text-zinc-200 rounded px-2 py-1 focus:outline-none focus:border-indigo-500"
+              >
+                {PALETTE_SIZES.map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center justify-between">
+            帧率 (FPS)
+            <input type="number" min="1" max="120" value={fps} onChange={(e) => setFps(parseInt(e.target.value) || 1)} className={inputClass} />
+          </label>
+          <label className="flex items-center justify-between">
+            缩放
+            <input type="number" min="0.1" max="8" step="0.1" value={scale} onChange={(e) => setScale(parseFloat(e.target.value) || 1)} className={inputClass} />
+          </label>
+          <label className="flex items-center justify-between">
+            裁剪到动画包围盒
+            <input type="checkbox" checked={trim} onChange={() => setTrim(!trim)} className="rounded bg-zinc-800 border-zinc-700 text-indigo-600 focus:ring-indigo-500 focus:ring-offset-zinc-900" />
+          </label>
+          {trim ? (
+            <label className="flex items-center justify-between">
+              边距 (px)
+              <input type="number" min="0" max="512" value={padding} onChange={(e) => setPadding(parseInt(e.target.value) || 0)} className={inputClass} />
+            </label>
+          ) : (
+            <div className="flex items-center justify-between">
+              分辨率
+              <div className="flex items-center gap-1">
+                <input type="number" min="1" max="8192" value={width} onChange={(e) => setWidth(parseInt(e.target.value) || 1)} className={inputClass} />
+                <span>x</span>
+                <input type="number" min="1" max="8192" value={height} onChange={(e) => setHeight(parseInt(e.target.value) || 1)} className={inputClass} />
+              </div>
+            </div>
+          )}
+          <label className="flex items-center justify-between">
+            透明背景
+            <input
+              type="checkbox"
+              checked={transparent || backgroundColor === 'transparent'}
+              disabled={backgroundColor === 'transparent'}
+              onChange={() => setTransparent(!transparent)}
+              className="rounded bg-zinc-800 border-zinc-700 text-indigo-600 focus:ring-indigo-500 focus:ring-offset-zinc-900"
+            />
+          </label>
+          <p className="text-[10px] text-zinc-600 leading-tight">
+            * 使用当前皮肤和动画轨道，以固定步长逐帧渲染，结果与实时播放进度无关。
+          </p>
+          {format === 'gif' && (
+            <p className="text-[10px] text-zinc-600 leading-tight">
+              * GIF 帧延迟以 1/100 秒为单位，帧率建议不超过 50；半透明边缘会被二值化，需要柔和透明请选择 APNG。
+            </p>
+          )}
+        </div>
+
+        {exportError && <div className="text-xs text-red-400">{exportError}</div>}
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting || !source}
+          className="flex items-center justify-center gap-2 py-2 rounded-md bg-indigo-600 text-white hover:bg-indigo-500 transition-colors disabled:opacity-50"
+        >
+          <Download size={16} />
+          {isExporting
+            ? `渲染中... ${progress.total > 0 ? `${progress.done}/${progress.total}` : ''}`
+            : '导出'}
+        </button>
+      </div>
+    </div>
+  );
+};
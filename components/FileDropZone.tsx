@@ -6,9 +6,11 @@ import { UploadedFile } from '../types';
 interface FileDropZoneProps {
   onFilesLoaded: (files: UploadedFile[]) => void;
   isProcessing: boolean;
+  lenient: boolean;
+  onLenientChange: (lenient: boolean) => void;
 }
 
-export const FileDropZone: React.FC<FileDropZoneProps> = ({ onFilesLoaded, isProcessing }) => {
+export const FileDropZone: React.FC<FileDropZoneProps> = ({ onFilesLoaded, isProcessing, lenient, onLenientChange }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -81,7 +83,7 @@ export const FileDropZone: React.FC<FileDropZoneProps> = ({ onFilesLoaded, isPro
             {isProcessing ? '处理中...' : '拖放 Spine 文件'}
           </h3>
           <p className="text-sm text-zinc-500 max-w-xs mx-auto">
-            将 .skel, .atlas, 和 .png 文件拖到这里。支持直接拖入文件夹。
+            将 .skel 或 .json, .atlas, 和 .png 文件拖到这里。支持直接拖入文件夹或 .zip 压缩包。
           </p>
         </div>
 
@@ -94,7 +96,7 @@ export const FileDropZone: React.FC<FileDropZoneProps> = ({ onFilesLoaded, isPro
               multiple 
               onChange={handleFileInput} 
               className="hidden" 
-              accept=".json,.skel,.atlas,.png,.jpg,.jpeg"
+              accept=".json,.skel,.atlas,.png,.jpg,.jpeg,.zip"
             />
           </label>
            <label className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-zinc-700 rounded-lg hover:bg-zinc-600 cursor-pointer transition-colors">
@@ -112,8 +114,21 @@ export const FileDropZone: React.FC<FileDropZoneProps> = ({ onFilesLoaded, isPro
           </label>
         </div>
         
+        <label
+          className="flex items-center gap-2 mt-4 text-xs text-zinc-400 hover:text-zinc-200 cursor-pointer"
+          title="缺失的图片用洋红色纹理代替，缺失的区域用棋盘格占位，所有替换都会列在警告面板中"
+        >
+          <input
+            type="checkbox"
+            checked={lenient}
+            onChange={() => onLenientChange(!lenient)}
+            className="rounded bg-zinc-800 border-zinc-700 text-indigo-600 focus:ring-indigo-500 focus:ring-offset-zinc-900"
+          />
+          宽松模式：缺失图片/区域时使用占位纹理继续加载
+        </label>
+
         <div className="mt-6 text-xs text-zinc-600">
-          支持 Spine 3.8 (.skel 二进制)
+          支持 Spine 3.8 (.skel 二进制 / .json)
         </div>
       </div>
     </div>
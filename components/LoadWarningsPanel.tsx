@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, Image as ImageIcon, Puzzle } from 'lucide-react';
+import { LoadWarning } from '../types';
+
+interface LoadWarningsPanelProps {
+  warnings: LoadWarning[];
+}
+
+export const LoadWarningsPanel: React.FC<LoadWarningsPanelProps> = ({ warnings }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  if (warnings.length === 0) return null;
+
+  return (
+    <div
+      className="bg-zinc-950/80 backdrop-blur-md border border-amber-700/50 rounded-xl shadow-2xl w-[320px] text-zinc-100 pointer-events-auto"
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800">
+        <div className="text-xs text-amber-400 font-bold uppercase tracking-wider flex items-center gap-2">
+          <AlertTriangle size={12} /> 加载警告 (Warnings)
+          <span className="text-zinc-500 font-mono normal-case">{warnings.length}</span>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+          title={isExpanded ? '收起' : '展开'}
+        >
+          {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="max-h-40 overflow-y-auto custom-scrollbar p-2 space-y-1">
+          {warnings.map((warning, i) => (
+            <div key={i} className="text-[10px] bg-zinc-900/60 rounded px-2 py-1">
+              <div className="flex items-center gap-1.5 font-mono text-amber-300">
+                {warning.kind === 'page' ? <ImageIcon size={10} className="shrink-0" /> : <Puzzle size={10} className="shrink-0" />}
+                <span className="truncate" title={warning.name}>{warning.name}</span>
+              </div>
+              <div className="text-zinc-400">{warning.message}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
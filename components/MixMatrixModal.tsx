@@ -0,0 +1,176 @@
+import React, { useRef, useState } from 'react';
+import { X, Download, Upload, Trash2 } from 'lucide-react';
+import { MixConfig } from '../types';
+import { downloadFile, readFileAsText } from '../utils/fileHelpers';
+import { parseMixConfig, countMixEntries } from '../utils/spineHelpers';
+
+interface MixMatrixModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  modelName: string;
+  animations: string[];
+  config: MixConfig;
+  onConfigChange: (config: MixConfig) => void;
+}
+
+export const MixMatrixModal: React.FC<MixMatrixModalProps> = ({
+  isOpen,
+  onClose,
+  modelName,
+  animations,
+  config,
+  onConfigChange
+}) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const setCell = (from: string, to: string, value: string) => {
+    const mixes = { ...config.mixes, [from]: { ...config.mixes[from] } };
+    const duration = parseFloat(value);
+    if (value === '' || isNaN(duration) || duration < 0) {
+      delete mixes[from][to];
+      if (Object.keys(mixes[from]).length === 0) delete mixes[from];
+    } else {
+      mixes[from][to] = duration;
+    }
+    onConfigChange({ ...config, mixes });
+  };
+
+  const handleExport = () => {
+    downloadFile(JSON.stringify(config, null, 2), `${modelName}_mix.json`, 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const json = JSON.parse(await readFileAsText(file));
+      onConfigChange(parseMixConfig(json));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message || '导入失败');
+    }
+  };
+
+  const customCount = countMixEntries(config);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl overflow-hidden w-[90vw] max-w-5xl h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div>
+            <h3 className="text-lg font-bold text-white">过渡时间 (Mix Duration)</h3>
+            <p className="text-xs text-zinc-500">{modelName} • 行: 起始动作 (From) → 列: 目标动作 (To)，留空使用默认值</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex items-center gap-4 px-6 py-3 border-b border-zinc-800 text-xs">
+          <label className="flex items-center gap-2 text-zinc-400">
+            默认过渡
+            <input
+              type="number"
+              min="0"
+              step="0.05"
+              value={config.defaultMix}
+              onChange={(e) => onConfigChange({ ...config, defaultMix: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-20 bg-zinc-950 border border-zinc-700 text-zinc-200 rounded px-2 py-1 font-mono focus:outline-none focus:border-indigo-500"
+            />
+            秒
+          </label>
+          <span className="text-zinc-600">自定义 {customCount} 项</span>
+
+          <div className="flex-1" />
+
+          {importError && <span className="text-red-400">{importError}</span>}
+          <button
+            onClick={() => onConfigChange({ ...config, mixes: {} })}
+            disabled={customCount === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-40"
+          >
+            <Trash2 size={12} /> 清空
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+          >
+            <Upload size={12} /> 导入 JSON
+          </button>
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-500 transition-colors"
+          >
+            <Download size={12} /> 导出 JSON
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+        </div>
+
+        {/* Matrix */}
+        <div className="flex-1 overflow-auto custom-scrollbar">
+          {animations.length === 0 ? (
+            <div className="text-zinc-500 text-sm italic p-6">该模型没有动作数据</div>
+          ) : (
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="sticky top-0 left-0 z-20 bg-zinc-900 p-2 text-left text-zinc-500 font-medium border-b border-r border-zinc-800">
+                    From \ To
+                  </th>
+                  {animations.map((to) => (
+                    <th
+                      key={to}
+                      className="sticky top-0 z-10 bg-zinc-900 p-2 text-zinc-400 font-medium border-b border-zinc-800 max-w-[96px] truncate"
+                      title={to}
+                    >
+                      {to}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {animations.map((from) => (
+                  <tr key={from} className="hover:bg-zinc-800/30">
+                    <th
+                      className="sticky left-0 z-10 bg-zinc-900 p-2 text-left text-zinc-400 font-medium border-r border-zinc-800 max-w-[160px] truncate"
+                      title={from}
+                    >
+                      {from}
+                    </th>
+                    {animations.map((to) => {
+                      const value = config.mixes[from]?.[to];
+                      return (
+                        <td key={to} className="p-1 border-b border-zinc-800/50">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.05"
+                            value={value ?? ''}
+                            placeholder={config.defaultMix.toString()}
+                            onChange={(e) => setCell(from, to, e.target.value)}
+                            className={`w-20 bg-zinc-950 border rounded px-1.5 py-1 font-mono focus:outline-none focus:border-indigo-500 placeholder-zinc-700
+                              ${value !== undefined ? 'border-indigo-500/50 text-indigo-300' : 'border-zinc-800 text-zinc-300'}
+                            `}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { X, Activity, Play } from 'lucide-react';
+import { SkeletonData } from '@pixi-spine/runtime-3.8';
+import { AnimationSweep, FrameMetrics, TrackConfig } from '../types';
+import { FRAME_METRICS, sweepAnimation } from '../utils/performanceSweep';
+
+interface PerformanceSweepModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  modelName: string;
+  skeletonData: SkeletonData | null;
+  skins: string[];
+  tracks: TrackConfig[];
+  currentAnimation: string;
+  fps: number;
+}
+
+const ALL_ANIMATIONS = '__all__';
+
+const METRIC_LABELS: Record<keyof FrameMetrics, string> = {
+  vertices: '顶点',
+  triangles: '三角形',
+  clippedTriangles: '剪裁三角形',
+  visibleSlots: '可见插槽',
+  attachmentSwitches: '附件切换',
+  drawCalls: 'Draw Calls',
+};
+
+const SPARKLINE_WIDTH = 160;
+const SPARKLINE_HEIGHT = 24;
+
+// Values over the frames, with the peak frame marked
+const Sparkline: React.FC<{ values: number[]; peakFrame: number }> = ({ values, peakFrame }) => {
+  const max = Math.max(...values, 1);
+  const step = values.length > 1 ? SPARKLINE_WIDTH / (values.length - 1) : 0;
+  const y = (value: number) => SPARKLINE_HEIGHT - 1 - (value / max) * (SPARKLINE_HEIGHT - 2);
+  const points = values.map((value, i) => `${i * step},${y(value)}`).join(' ');
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="shrink-0">
+      <polyline points={points} fill="none" stroke="#818cf8" strokeWidth={1} />
+      <circle cx={peakFrame * step} cy={y(values[peakFrame])} r={2} fill="#f87171" />
+    </svg>
+  );
+};
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+export const PerformanceSweepModal: React.FC<PerformanceSweepModalProps> = ({
+  isOpen,
+  onClose,
+  modelName,
+  skeletonData,
+  skins,
+  tracks,
+  currentAnimation,
+  fps,
+}) => {
+  const [target, setTarget] = useState(currentAnimation || ALL_ANIMATIONS);
+  const [results, setResults] = useState<AnimationSweep[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    setResults([]);
+  }, [skeletonData]);
+
+  useEffect(() => {
+    if (isOpen) setTarget(currentAnimation || ALL_ANIMATIONS);
+  }, [isOpen]);
+
+  if (!isOpen || !skeletonData) return null;
+
+  const handleRun = async () => {
+    const names = target === ALL_ANIMATIONS ? skeletonData.animations.map(a => a.name) : [target];
+    const sweeps: AnimationSweep[] = [];
+    setResults([]);
+    setProgress({ done: 0, total: names.length });
+    for (const name of names) {
+      const sweep = sweepAnimation(skeletonData, skins, name, tracks, fps);
+      if (sweep) sweeps.push(sweep);
+      setProgress({ done: sweeps.length, total: names.length });
+      // Let the progress render between animations
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    setResults(sweeps);
+    setProgress(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl overflow-hidden w-[90vw] max-w-4xl h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div>
+            <h3 className="text-lg font-bold text-white flex items-center gap-2"><Activity size={18} /> 性能扫描 (Performance Sweep)</h3>
+            <p className="text-xs text-zinc-500">{modelName} • 以 {fps} FPS 逐帧步进动画，统计每帧的渲染开销</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Controls */}
+        <div className="flex items-center gap-3 px-6 py-3 border-b border-zinc-800 text-xs">
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            disabled={!!progress}
+            className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-zinc-200 focus:outline-none"
+          >
+            <option value={ALL_ANIMATIONS}>全部动画 ({skeletonData.animations.length})</option>
+            {skeletonData.animations.map(a => (
+              <option key={a.name} value={a.name}>{a.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleRun}
+            disabled={!!progress || skeletonData.animations.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40"
+          >
+            <Play size={12} /> 开始扫描
+          </button>
+          {progress && (
+            <span className="text-zinc-400 font-mono">{progress.done} / {progress.total}</span>
+          )}
+          <span className="text-zinc-600 ml-auto">使用当前皮肤与叠加轨道</span>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4 space-y-4 text-xs">
+          {results.length === 0 && !progress && (
+            <div className="text-zinc-600">选择动画并开始扫描。峰值帧以红点标出。</div>
+          )}
+          {results.map(sweep => (
+            <div key={sweep.animation} className="border border-zinc-800 rounded-lg">
+              <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800">
+                <span className="font-bold text-zinc-200 truncate" title={sweep.animation}>{sweep.animation}</span>
+                <span className="text-zinc-500 font-mono">{sweep.frames.length} 帧</span>
+              </div>
+              <table className="w-full">
+                <thead>
+                  <tr className="text-zinc-500 text-left">
+                    <th className="px-3 py-1 font-normal">指标</th>
+                    <th className="px-3 py-1 font-normal text-right">最小</th>
+                    <th className="px-3 py-1 font-normal text-right">平均</th>
+                    <th className="px-3 py-1 font-normal text-right">峰值 @帧</th>
+                    <th className="px-3 py-1 font-normal"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {FRAME_METRICS.map(metric => {
+                    const summary = sweep.summary[metric];
+                    return (
+                      <tr key={metric} className="border-t border-zinc-800/50">
+                        <td className="px-3 py-1 text-zinc-300">{METRIC_LABELS[metric]}</td>
+                        <td className="px-3 py-1 font-mono text-zinc-400 text-right">{formatNumber(summary.min)}</td>
+                        <td className="px-3 py-1 font-mono text-zinc-400 text-right">{formatNumber(summary.avg)}</td>
+                        <td className="px-3 py-1 font-mono text-zinc-200 text-right">
+                          {formatNumber(summary.peak)} <span className="text-zinc-500">@{summary.peakFrame}</span>
+                        </td>
+                        <td className="px-3 py-1">
+                          <Sparkline values={sweep.frames.map(frame => frame[metric])} peakFrame={summary.peakFrame} />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { MousePointerClick, X, Box, Bone as BoneIcon, Layers } from 'lucide-react';
+import { PickResult } from '../utils/skeletonPicking';
+
+interface PickPanelProps {
+  result: PickResult | null;
+  onClear: () => void;
+}
+
+export const PickPanel: React.FC<PickPanelProps> = ({ result, onClear }) => {
+  return (
+    <div
+      className="bg-zinc-950/80 backdrop-blur-md border border-indigo-700/50 rounded-xl shadow-2xl w-[320px] text-zinc-100 pointer-events-auto"
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800">
+        <div className="text-xs text-indigo-400 font-bold uppercase tracking-wider flex items-center gap-2">
+          <MousePointerClick size={12} /> 拾取结果 (Pick)
+        </div>
+        <button
+          onClick={onClear}
+          disabled={!result}
+          className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors disabled:opacity-30"
+          title="清除"
+        >
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="p-2 space-y-1 text-[10px] font-mono">
+        {!result ? (
+          <div className="text-zinc-600 italic text-xs px-2 py-1">点击画布上的骨架进行拾取</div>
+        ) : (
+          <>
+            <div className="text-zinc-500 px-2">
+              坐标 ({result.x.toFixed(1)}, {result.y.toFixed(1)})
+            </div>
+            {result.slot ? (
+              <div className="bg-zinc-900/60 rounded px-2 py-1 flex items-center gap-1.5">
+                <Layers size={10} className="text-emerald-400 shrink-0" />
+                <span className="text-emerald-300 truncate" title={result.slot}>{result.slot}</span>
+                <span className="text-zinc-500 truncate" title={result.attachment || ''}>{result.attachment}</span>
+              </div>
+            ) : result.bone ? (
+              <div className="bg-zinc-900/60 rounded px-2 py-1 flex items-center gap-1.5">
+                <BoneIcon size={10} className="text-indigo-400 shrink-0" />
+                <span className="text-indigo-300 truncate" title={result.bone}>{result.bone}</span>
+              </div>
+            ) : (
+              <div className="text-zinc-600 px-2">未命中插槽或骨骼</div>
+            )}
+            <div className="px-2 pt-1 text-zinc-500 flex items-center gap-1.5">
+              <Box size={10} className="text-lime-400" /> 包围盒 (Bounding Box): {result.boundingBoxes.length}
+            </div>
+            {result.boundingBoxes.map((hit, i) => (
+              <div key={i} className="bg-zinc-900/60 rounded px-2 py-1 flex justify-between gap-2">
+                <span className="text-lime-300 truncate" title={hit.attachment}>{hit.attachment}</span>
+                <span className="text-zinc-500 truncate" title={hit.slot}>{hit.slot}</span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
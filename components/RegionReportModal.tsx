@@ -0,0 +1,144 @@
+import React from 'react';
+import { X, Download } from 'lucide-react';
+import { RegionReport } from '../types';
+import { downloadFile, formatBytes } from '../utils/fileHelpers';
+import { groupMissingBySkin } from '../utils/atlasReport';
+
+interface RegionReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  modelName: string;
+  report: RegionReport | null;
+}
+
+export const RegionReportModal: React.FC<RegionReportModalProps> = ({
+  isOpen,
+  onClose,
+  modelName,
+  report
+}) => {
+  if (!isOpen || !report) return null;
+
+  const missingBySkin = groupMissingBySkin(report.missing);
+
+  const handleExport = () => {
+    const json = {
+      model: modelName,
+      totalRegions: report.totalRegions,
+      unusedRegions: report.unused,
+      unusedArea: report.unusedArea,
+      unusedBytes: report.unusedBytes,
+      missingRegions: missingBySkin,
+    };
+    downloadFile(JSON.stringify(json, null, 2), `${modelName}_regions.json`, 'application/json');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl overflow-hidden w-[90vw] max-w-3xl h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div>
+            <h3 className="text-lg font-bold text-white">区域报告 (Region Report)</h3>
+            <p className="text-xs text-zinc-500">{modelName} • 所有皮肤的附件与图集区域交叉比对</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleExport}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-zinc-800 text-zinc-300 hover:text-white hover:bg-zinc-700 text-xs"
+            >
+              <Download size={14} /> 导出 JSON
+            </button>
+            <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-4 gap-4 px-6 py-4 border-b border-zinc-800">
+          <div>
+            <div className="text-[10px] text-zinc-500">区域总数</div>
+            <div className="font-mono text-base text-zinc-200">{report.totalRegions}</div>
+          </div>
+          <div>
+            <div className="text-[10px] text-zinc-500">未使用区域</div>
+            <div className={`font-mono text-base ${report.unused.length > 0 ? 'text-amber-400' : 'text-zinc-200'}`}>{report.unused.length}</div>
+          </div>
+          <div>
+            <div className="text-[10px] text-zinc-500">浪费内存 (估算)</div>
+            <div className="font-mono text-base text-zinc-200" title={`${report.unusedArea} px`}>{formatBytes(report.unusedBytes)}</div>
+          </div>
+          <div>
+            <div className="text-[10px] text-zinc-500">缺失区域</div>
+            <div className={`font-mono text-base ${report.missing.length > 0 ? 'text-red-500 font-bold' : 'text-zinc-200'}`}>{report.missing.length}</div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4 space-y-6 text-xs">
+          {/* Missing Regions */}
+          <div>
+            <h4 className="font-bold text-red-400 uppercase tracking-wider mb-2">缺失区域 (Missing)</h4>
+            {report.missing.length === 0 ? (
+              <div className="text-zinc-600">所有附件引用的区域都存在于图集中。</div>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-[10px] text-zinc-600">* 这些附件以棋盘格占位显示 (仅宽松模式下可加载)。</p>
+                {Object.entries(missingBySkin).map(([skin, entries]) => (
+                  <div key={skin}>
+                    <div className="text-zinc-400 mb-1">皮肤: <span className="text-zinc-200">{skin}</span> ({entries.length})</div>
+                    <table className="w-full">
+                      <tbody>
+                        {entries.map((entry, i) => (
+                          <tr key={i} className="border-b border-zinc-800/50">
+                            <td className="py-1 text-zinc-300 truncate max-w-0 w-1/2" title={entry.attachment}>{entry.attachment}</td>
+                            <td className="py-1 font-mono text-red-300 truncate max-w-0 w-1/3" title={entry.path}>{entry.path}</td>
+                            <td className="py-1 text-zinc-500 text-right">{entry.type === 'mesh' ? '网格' : '区域'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Unused Regions */}
+          <div>
+            <h4 className="font-bold text-amber-400 uppercase tracking-wider mb-2">未使用区域 (Unused)</h4>
+            {report.unused.length === 0 ? (
+              <div className="text-zinc-600">图集中的所有区域都被至少一个附件引用。</div>
+            ) : (
+              <table className="w-full">
+                <thead>
+                  <tr className="text-zinc-500 text-left border-b border-zinc-800">
+                    <th className="py-1 font-normal">区域</th>
+                    <th className="py-1 font-normal">页面</th>
+                    <th className="py-1 font-normal text-right">尺寸</th>
+                    <th className="py-1 font-normal text-right">内存</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.unused.map((region, i) => (
+                    <tr key={i} className="border-b border-zinc-800/50">
+                      <td className="py-1 text-zinc-300 truncate max-w-0 w-2/5" title={region.name}>
+                        {region.name}{region.index >= 0 ? ` [${region.index}]` : ''}
+                      </td>
+                      <td className="py-1 text-zinc-500 truncate max-w-0 w-1/4" title={region.page}>{region.page}</td>
+                      <td className="py-1 font-mono text-zinc-400 text-right">{region.width}x{region.height}</td>
+                      <td className="py-1 font-mono text-zinc-400 text-right">{formatBytes(region.bytes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Layers, ChevronDown, ChevronUp, Eye, EyeOff, Search, Lock, Unlock, RotateCcw } from 'lucide-react';
+import { Color } from '@pixi-spine/base';
+import { Skeleton } from '@pixi-spine/runtime-3.8';
+import { getAnimatedSlotIndices, getSlotAttachments } from '../utils/spineHelpers';
+
+interface SlotInspectorProps {
+  skeleton: Skeleton | null; // Live skeleton on the canvas
+  animation: string; // Track 0 animation, used to mark the slots it reorders or switches
+  hiddenSlots: Set<string>;
+  soloSlot: string | null;
+  onToggleHidden: (name: string) => void;
+  onToggleSolo: (name: string) => void;
+  selectedSlot: string | null; // Slot picked on the canvas
+  attachmentLocks: Record<string, string | null>; // Slot name -> locked skin placeholder name (null for none)
+  onSetAttachment: (slot: string, attachment: string | null) => void;
+  onToggleLock: (slot: string, attachment: string | null) => void;
+  onResetSlot: (slot: string) => void; // Drops the lock and returns the slot to its setup pose
+}
+
+// Spine 3.8 blend modes, same numbering as PIXI.BLEND_MODES
+const BLEND_MODE_LABELS: Record<number, string> = {
+  0: 'Normal',
+  1: 'Additive',
+  2: 'Multiply',
+  3: 'Screen',
+};
+
+const toHex = (color: Color) =>
+  [color.r, color.g, color.b, color.a]
+    .map((c) => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, '0'))
+    .join('');
+
+const toCss = (color: Color) =>
+  `rgba(${Math.round(color.r * 255)}, ${Math.round(color.g * 255)}, ${Math.round(color.b * 255)}, ${color.a})`;
+
+// Changes whenever the draw order, an attachment or a colour changes
+const getSignature = (skeleton: Skeleton) =>
+  skeleton.drawOrder
+    .map((slot) => `${slot.data.index}:${slot.attachment?.name ?? ''}:${toHex(slot.color)}:${slot.darkColor ? toHex(slot.darkColor) : ''}`)
+    .join('|');
+
+export const SlotInspector: React.FC<SlotInspectorProps> = ({
+  skeleton,
+  animation,
+  hiddenSlots,
+  soloSlot,
+  onToggleHidden,
+  onToggleSolo,
+  selectedSlot,
+  attachmentLocks,
+  onSetAttachment,
+  onToggleLock,
+  onResetSlot,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [openSlot, setOpenSlot] = useState<string | null>(null);
+  const [, setSignature] = useState('');
+
+  // Re-render only when something shown in the list actually changed
+  useEffect(() => {
+    if (!skeleton || !isExpanded) return;
+    let frameId = 0;
+    const poll = () => {
+      const next = getSignature(skeleton);
+      setSignature((prev) => (prev === next ? prev : next));
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, [skeleton, isExpanded]);
+
+  const animated = useMemo(() => {
+    const anim = animation ? skeleton?.data.findAnimation(animation) : null;
+    return anim ? getAnimatedSlotIndices(anim) : { drawOrder: new Set<number>(), attachment: new Set<number>() };
+  }, [skeleton, animation]);
+
+  if (!skeleton) return null;
+
+  const query = filter.trim().toLowerCase();
+  const hiddenCount = soloSlot ? skeleton.slots.length - 1 : hiddenSlots.size;
+  const lockCount = Object.keys(attachmentLocks).length;
+
+  return (
+    <div
+      className="bg-zinc-950/80 backdrop-blur-md border border-zinc-700/50 rounded-xl shadow-2xl w-[320px] text-zinc-100 pointer-events-auto"
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800">
+        <div className="text-xs text-emerald-400 font-bold uppercase tracking-wider flex items-center gap-2">
+          <Layers size={12} /> 绘制顺序 (Slots)
+          <span className="text-zinc-500 font-mono normal-case">{skeleton.slots.length}</span>
+          {hiddenCount > 0 && (
+            <span className="text-zinc-500 font-mono normal-case" title="已隐藏的插槽数">
+              <EyeOff size={10} className="inline mb-0.5" /> {hiddenCount}
+            </span>
+          )}
+          {lockCount > 0 && (
+            <span className="text-indigo-300 font-mono normal-case" title="已锁定附件的插槽数">
+              <Lock size={10} className="inline mb-0.5" /> {lockCount}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+          title={isExpanded ? '收起' : '展开'}
+        >
+          {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <>
+          <div className="px-2 pt-2">
+            <div className="flex items-center gap-1.5 bg-zinc-900 border border-zinc-800 rounded px-2 py-1">
+              <Search size={10} className="text-zinc-500" />
+              <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="搜索插槽或附件..."
+                className="flex-1 bg-transparent text-[10px] text-zinc-200 focus:outline-none"
+              />
+            </div>
+          </div>
+          <div className="max-h-64 overflow-y-auto custom-scrollbar p-2 space-y-0.5">
+            {skeleton.drawOrder.map((slot, position) => {
+              const name = slot.data.name;
+              const attachmentName = slot.attachment?.name || '';
+              if (query && !name.toLowerCase().includes(query) && !attachmentName.toLowerCase().includes(query)) return null;
+
+              const index = slot.data.index;
+              const reordered = animated.drawOrder.has(index);
+              const switched = animated.attachment.has(index);
+              const isHidden = soloSlot ? soloSlot !== name : hiddenSlots.has(name);
+              const isSolo = soloSlot === name;
+              const blendMode = slot.data.blendMode as unknown as number;
+              const isLocked = name in attachmentLocks;
+              const isOpen = openSlot === name;
+              const available = isOpen ? getSlotAttachments(skeleton, index) : [];
+              // Skin placeholder name of the attachment currently shown, which setAttachment expects
+              // (undefined when the attachment does not come from the current skins)
+              const current = slot.attachment ? available.find((entry) => entry.attachment === slot.attachment)?.name : null;
+
+              return (
+                <React.Fragment key={name}>
+                  <div
+                    className={`flex items-center gap-1.5 px-1.5 py-0.5 rounded text-[10px] font-mono ${reordered || switched ? 'bg-amber-900/20' : 'hover:bg-zinc-800'} ${isHidden ? 'opacity-40' : ''} ${selectedSlot === name ? 'ring-1 ring-emerald-400' : ''}`}
+                  >
+                    <span className="text-zinc-600 w-6 text-right shrink-0">{position}</span>
+                    <span
+                      className="w-2.5 h-2.5 rounded-sm border border-zinc-600 shrink-0"
+                      style={{ backgroundColor: toCss(slot.color) }}
+                      title={`颜色 #${toHex(slot.color)}`}
+                    />
+                    <span
+                      className="w-2.5 h-2.5 rounded-sm border border-zinc-600 shrink-0"
+                      style={{ backgroundColor: slot.darkColor ? toCss(slot.darkColor) : 'transparent' }}
+                      title={slot.darkColor ? `暗色 #${toHex(slot.darkColor)}` : '无暗色 (Tint Black)'}
+                    />
+                    <div className="flex-1 min-w-0 cursor-pointer" onClick={() => setOpenSlot(isOpen ? null : name)} title="展开可用附件">
+                      <div className="flex items-center gap-1">
+                        {isLocked && <Lock size={9} className="text-indigo-300 shrink-0" />}
+                        <span className="text-zinc-200 truncate" title={name}>{name}</span>
+                        {blendMode !== 0 && (
+                          <span className="text-red-300 shrink-0">{BLEND_MODE_LABELS[blendMode] || blendMode}</span>
+                        )}
+                        {reordered && <span className="text-amber-400 shrink-0" title="当前动画改变此插槽的绘制顺序">顺序</span>}
+                        {switched && <span className="text-amber-400 shrink-0" title="当前动画切换此插槽的附件">附件</span>}
+                      </div>
+                      <div className={`truncate ${attachmentName ? 'text-zinc-500' : 'text-zinc-700 italic'}`} title={attachmentName}>
+                        {attachmentName || '无附件'}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onToggleSolo(name)}
+                      className={`px-1 rounded shrink-0 ${isSolo ? 'bg-indigo-600 text-white' : 'text-zinc-500 hover:text-white hover:bg-zinc-700'}`}
+                      title={isSolo ? '取消独显' : '只显示此插槽 (Solo)'}
+                    >
+                      S
+                    </button>
+                    <button
+                      onClick={() => onToggleHidden(name)}
+                      disabled={!!soloSlot}
+                      className="p-0.5 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded shrink-0 disabled:opacity-30"
+                      title={hiddenSlots.has(name) ? '显示' : '隐藏'}
+                    >
+                      {hiddenSlots.has(name) ? <EyeOff size={10} /> : <Eye size={10} />}
+                    </button>
+                  </div>
+                  {isOpen && (
+                    <div className="ml-8 mb-1 pl-2 border-l border-zinc-800 space-y-0.5 text-[10px] font-mono">
+                      <div className="flex items-center gap-1 py-0.5">
+                        <button
+                          onClick={() => onToggleLock(name, current ?? null)}
+                          disabled={!isLocked && current === undefined}
+                          className={`flex items-center gap-1 px-1.5 py-0.5 rounded disabled:opacity-30 ${isLocked ? 'bg-indigo-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}
+                          title={isLocked ? '解除锁定，动画可再次切换附件' : '锁定当前附件，动画不会替换它'}
+                        >
+                          {isLocked ? <Lock size={9} /> : <Unlock size={9} />} {isLocked ? '已锁定' : '锁定'}
+                        </button>
+                        <button
+                          onClick={() => onResetSlot(name)}
+                          className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400 hover:text-white"
+                          title="解除锁定并恢复初始姿势 (Setup Pose)"
+                        >
+                          <RotateCcw size={9} /> 重置
+                        </button>
+                        {switched && !isLocked && <span className="text-amber-500/80">动画会覆盖手动选择</span>}
+                      </div>
+                      {[null, ...available.map((entry) => entry.name)].map((option) => (
+                        <div
+                          key={option ?? ''}
+                          onClick={() => onSetAttachment(name, option)}
+                          className={`px-1.5 py-0.5 rounded cursor-pointer truncate ${option === current ? 'bg-emerald-600/30 text-white' : 'text-zinc-400 hover:bg-zinc-800'}`}
+                          title={option ?? ''}
+                        >
+                          {option ?? <span className="italic text-zinc-600">无附件</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,46 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import * as PIXI from 'pixi.js';
 import { Spine, RegionAttachment, MeshAttachment, ClippingAttachment, PathAttachment, BoundingBoxAttachment, Skeleton } from '@pixi-spine/runtime-3.8';
-import { SpineModel, SpineDebugConfig } from '../types';
-import { RotateCcw, Info } from 'lucide-react';
+import { SpineModel, SpineDebugConfig, TrackConfig, MixConfig, ScaleMode, FramingBounds, TextureInfo, AlphaMode, BonePose, ConstraintOverride, BudgetRule, BudgetMetric } from '../types';
+import { applySkins, applyTrackLayers, applyMixConfig, getEventKeys, measureSkeletonBounds, installPoseOverrides, resetConstraint, worldToParentLocal } from '../utils/spineHelpers';
+import { RotateCcw, Info, Film, ClipboardList, AlertTriangle, MousePointerClick, Hand, Move, Activity, ChevronDown, ChevronUp } from 'lucide-react';
 import { TextureAtlasModal } from './TextureAtlasModal';
+import { Timeline, PlayRange } from './Timeline';
+import { EventLog, SpineEventRecord } from './EventLog';
+import { ExportModal } from './ExportModal';
+import { RegionReportModal } from './RegionReportModal';
+import { PerformanceSweepModal } from './PerformanceSweepModal';
+import { LoadWarningsPanel } from './LoadWarningsPanel';
+import { BoneInspector } from './BoneInspector';
+import { SlotInspector } from './SlotInspector';
+import { PickPanel } from './PickPanel';
+import { ConstraintInspector } from './ConstraintInspector';
+import { formatBytes } from '../utils/fileHelpers';
+import { resolveAlphaState, applyAlphaMode, AlphaState } from '../utils/premultipliedAlpha';
+import { computeAttachmentWorldVertices, pickAt, pickBone, boneDistance, PickResult } from '../utils/skeletonPicking';
+import { estimateDrawCalls, BatchBreak, BATCH_BREAK_LABELS } from '../utils/batchEstimator';
+import { BUDGET_STATUS_CLASSES, getBudgetStatus } from '../utils/budgetRules';
 
 interface SpineCanvasProps {
   spineModel: SpineModel | null;
   animation: string;
+  skins: string[];
+  tracks: TrackConfig[];
+  mixConfig: MixConfig;
   timeScale: number;
   loop: boolean;
   backgroundColor: string; // Hex string e.g., '#18181b'
   debugConfig: SpineDebugConfig;
+  scaleMode: ScaleMode;
+  onScaleModeChange: (mode: ScaleMode) => void;
+  framingBounds: FramingBounds;
+  onFramingBoundsChange: (bounds: FramingBounds) => void;
+  alphaMode: AlphaMode;
+  onAlphaModeChange: (mode: AlphaMode) => void;
+  imagePaths: string[]; // All uploaded images, for rebinding atlas pages by hand
+  onTextureOverride: (pageName: string, imagePath: string) => void;
+  onRequestPause?: () => void;
+  budgetRules: BudgetRule[]; // Active project's limits, used to colour the stats
 }
 
 // Spine 3.8 Blend Mode Enum
@@ -23,23 +52,75 @@ enum SpineBlendMode {
     Screen = 3,
 }
 
-// Helper to format bytes
-const formatBytes = (bytes: number, decimals = 2) => {
-    if (!+bytes) return '0 B';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
+// Maximum number of entries kept in the event log
+const MAX_EVENT_LOG = 200;
+
+// Screen distance (px) within which a click selects a bone when no slot is hit
+const PICK_BONE_RADIUS = 12;
+
+// What a pointer drag on the stage does: pan the view, pick slots/bones, or pose bones
+type ToolMode = 'pan' | 'pick' | 'pose';
+type PoseAction = 'rotate' | 'translate';
+
+const TOOL_CURSORS: Record<ToolMode, string> = {
+    pan: 'grab',
+    pick: 'crosshair',
+    pose: 'move',
+};
+
+// Handlers the stage delegates to when not panning; down returns true when it handled the event
+interface StageTool {
+    down: (point: PIXI.IPointData) => boolean;
+    move: (point: PIXI.IPointData) => void;
+    up: () => void;
+}
+
+// Bone being dragged in pose mode, with the values captured when the drag started
+interface PoseDrag {
+    bone: string;
+    action: PoseAction;
+    startAngle: number; // Pointer angle around the bone origin, in the parent's space (degrees)
+    startRotation: number;
+    offsetX: number; // Pointer minus bone position, in the parent's space
+    offsetY: number;
+}
+
+// Share of the viewport the skeleton may occupy in 'fit' mode, leaving room for the overlays
+const FIT_MARGIN = 0.8;
+
+const SCALE_MODE_LABELS: Record<ScaleMode, string> = {
+    fit: '适应',
+    fill: '填充',
+    '1x': '1x',
+};
+
+const ALPHA_SOURCE_LABELS: Record<AlphaState['source'], string> = {
+    manual: '手动',
+    atlas: '图集声明',
+    detected: '像素检测',
+    default: '默认',
 };
 
 export const SpineCanvas: React.FC<SpineCanvasProps> = ({ 
   spineModel, 
   animation, 
+  skins,
+  tracks,
+  mixConfig,
   timeScale, 
   loop,
   backgroundColor,
-  debugConfig
+  debugConfig,
+  scaleMode,
+  onScaleModeChange,
+  framingBounds,
+  onFramingBoundsChange,
+  alphaMode,
+  onAlphaModeChange,
+  imagePaths,
+  onTextureOverride,
+  onRequestPause,
+  budgetRules
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const appRef = useRef<PIXI.Application | null>(null);
@@ -49,14 +130,37 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
   const debugGraphicsRef = useRef<PIXI.Graphics | null>(null);
 
   // Modal State
-  const [selectedTexture, setSelectedTexture] = useState<{
-      name: string;
-      url: string;
-      width: number;
-      height: number;
-  } | null>(null);
+  const [selectedTexture, setSelectedTexture] = useState<TextureInfo | null>(null);
   const [animStats, setAnimStats] = useState({ duration: 0, fps: 30, frameCount: 0 });
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [playRange, setPlayRange] = useState<PlayRange | null>(null);
+  const [eventLog, setEventLog] = useState<SpineEventRecord[]>([]);
+  const [eventKeys, setEventKeys] = useState<{ time: number; name: string }[]>([]);
+  const eventIdRef = useRef(0);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isRegionReportOpen, setIsRegionReportOpen] = useState(false);
+  const [isSweepOpen, setIsSweepOpen] = useState(false);
+  const [showBatchBreaks, setShowBatchBreaks] = useState(false);
+  const [skeleton, setSkeleton] = useState<Skeleton | null>(null); // Live skeleton for the inspectors
+  const [selectedBone, setSelectedBone] = useState<string | null>(null);
+  const [hiddenSlots, setHiddenSlots] = useState<Set<string>>(new Set());
+  const [soloSlot, setSoloSlot] = useState<string | null>(null);
+  // Attachments forced from the slot inspector that animations may not replace; the ref is read every frame
+  const [attachmentLocks, setAttachmentLocks] = useState<Record<string, string | null>>({});
+  const attachmentLocksRef = useRef(attachmentLocks);
+  // Pick and pose tools: clicks on the stage select or drag bones instead of panning
+  const [toolMode, setToolMode] = useState<ToolMode>('pan');
+  const [pickResult, setPickResult] = useState<PickResult | null>(null);
+  const [poseAction, setPoseAction] = useState<PoseAction>('rotate');
+  const [posedBones, setPosedBones] = useState<string[]>([]);
+  // Dragged poses are written every frame after the animation, so they live in a ref
+  const bonePoseRef = useRef<Record<string, BonePose>>({});
+  const poseDragRef = useRef<PoseDrag | null>(null);
+  const toolModeRef = useRef(toolMode);
+  // Constraint values forced from the constraint inspector, re-applied every frame like the locks above
+  const [constraintOverrides, setConstraintOverrides] = useState<Record<string, ConstraintOverride>>({});
+  const constraintOverridesRef = useRef(constraintOverrides);
+  const stageToolRef = useRef<StageTool>({ down: () => false, move: () => {}, up: () => {} });
 
   // Stats State
   const [stats, setStats] = useState({ 
@@ -68,6 +172,8 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
       // Attachments (Active)
       activeVertices: 0,
       activeTriangles: 0,
+      drawCalls: 0,
+      batchBreaks: [] as BatchBreak[],
       
       // Features
       features: [] as string[],
@@ -106,6 +212,7 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
     let containerStartY = 0;
 
     app.stage.on('pointerdown', (e) => {
+        if (stageToolRef.current.down(e.global)) return;
         isDragging = true;
         startX = e.global.x;
         startY = e.global.y;
@@ -116,7 +223,8 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
 
     const onDragEnd = () => {
         isDragging = false;
-        if(app.view.style) app.view.style.cursor = 'grab';
+        stageToolRef.current.up();
+        if(app.view.style) app.view.style.cursor = TOOL_CURSORS[toolModeRef.current];
     };
 
     app.stage.on('pointerup', onDragEnd);
@@ -128,6 +236,8 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
             const dy = e.global.y - startY;
             mainContainer.x = containerStartX + dx;
             mainContainer.y = containerStartY + dy;
+        } else {
+            stageToolRef.current.move(e.global);
         }
     });
 
@@ -197,12 +307,17 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
         }
     }
 
+    // 3. Batching
+    const { drawCalls, breaks } = estimateDrawCalls(skeleton);
+
     setStats({ 
         totalBones,
         totalSlots,
         totalConstraints,
         activeVertices: activeVertexCount, 
         activeTriangles: Math.floor(activeTriangleCount),
+        drawCalls,
+        batchBreaks: breaks,
         features: Array.from(detectedFeatures),
         blendModes: Array.from(detectedBlendModes)
     });
@@ -212,6 +327,7 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
   useEffect(() => {
     if (!spineModel || !animation) {
         setAnimStats({ duration: 0, fps: 30, frameCount: 0 });
+        setEventKeys([]);
         return;
     }
     // Find animation data
@@ -221,6 +337,7 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
         const duration = animData.duration;
         const frameCount = Math.ceil(duration * fps);
         setAnimStats({ duration, fps, frameCount });
+        setEventKeys(getEventKeys(animData));
     }
   }, [spineModel, animation]);
 
@@ -426,9 +543,9 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
         // 2. Region Attachments (Images)
         if (attachment instanceof RegionAttachment) {
             if (config.regions) {
-                const worldVertices = new Float32Array(8);
-                attachment.computeWorldVertices(slot.bone, worldVertices, 0, 2);
-                
+                const worldVertices = computeAttachmentWorldVertices(slot, attachment);
+                if (!worldVertices) continue;
+
                 graphics.lineStyle(1.5, 0xFF8800, 0.9); // Orange
                 graphics.moveTo(worldVertices[0], worldVertices[1]);
                 graphics.lineTo(worldVertices[2], worldVertices[3]);
@@ -441,8 +558,8 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
 
         // 3. Mesh Attachments
         else if (attachment instanceof MeshAttachment) {
-            const worldVertices = new Float32Array(attachment.worldVerticesLength);
-            attachment.computeWorldVertices(slot, 0, attachment.worldVerticesLength, worldVertices, 0, 2);
+            const worldVertices = computeAttachmentWorldVertices(slot, attachment);
+            if (!worldVertices) continue;
 
             // Draw Hull (Contour)
             if (config.meshHull) {
@@ -548,6 +665,163 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
     }
   };
 
+  // Position and scale the view so the skeleton bounds are framed according to the scale mode
+  const applyFraming = () => {
+    const app = appRef.current;
+    const container = mainContainerRef.current;
+    const spine = spineRef.current;
+    if (!app || !container || !spine) return;
+
+    const bounds = measureSkeletonBounds(
+        spine.skeleton.data,
+        skins,
+        framingBounds === 'animation' ? animation : null,
+        tracks
+    );
+    const { width, height } = app.screen;
+
+    let scale = 1;
+    if (bounds && bounds.width > 0 && bounds.height > 0 && scaleMode !== '1x') {
+        const scaleX = width / bounds.width;
+        const scaleY = height / bounds.height;
+        scale = scaleMode === 'fit'
+            ? Math.min(scaleX, scaleY) * FIT_MARGIN
+            : Math.max(scaleX, scaleY);
+    }
+
+    const centerX = bounds ? bounds.x + bounds.width / 2 : 0;
+    const centerY = bounds ? bounds.y + bounds.height / 2 : 0;
+    container.scale.set(scale);
+    container.position.set(width / 2 - centerX * scale, height / 2 - centerY * scale);
+    setZoomLevel(scale);
+  };
+
+  // Marks the bone selected in the inspector: origin ring plus a line along the bone
+  const drawBoneHighlight = (skeleton: Skeleton, boneName: string, graphics: PIXI.Graphics) => {
+    const bone = skeleton.findBone(boneName);
+    if (!bone) return;
+    const m = bone.matrix;
+    const length = Math.max(bone.data.length, 20);
+    graphics.lineStyle(2, 0xFBBF24, 1);
+    graphics.drawCircle(bone.worldX, bone.worldY, 6);
+    graphics.moveTo(bone.worldX, bone.worldY);
+    graphics.lineTo(bone.worldX + m.a * length, bone.worldY + m.b * length);
+    if (bone.parent) {
+        graphics.lineStyle(1, 0xFBBF24, 0.4);
+        graphics.moveTo(bone.parent.worldX, bone.parent.worldY);
+        graphics.lineTo(bone.worldX, bone.worldY);
+    }
+  };
+
+  // Outlines the slot hit by the last pick
+  const drawSlotHighlight = (skeleton: Skeleton, slotName: string, graphics: PIXI.Graphics) => {
+    const slot = skeleton.findSlot(slotName);
+    const vertices = slot?.attachment ? computeAttachmentWorldVertices(slot, slot.attachment) : null;
+    if (!slot || !vertices) return;
+    // Region corners form the outline; for meshes the hull vertices come first
+    const count = slot.attachment instanceof MeshAttachment ? slot.attachment.hullLength : 8;
+    graphics.lineStyle(2, 0x34D399, 1);
+    graphics.moveTo(vertices[0], vertices[1]);
+    for (let i = 2; i < count; i += 2) graphics.lineTo(vertices[i], vertices[i + 1]);
+    graphics.lineTo(vertices[0], vertices[1]);
+  };
+
+  // Hit-tests a stage point against the live skeleton
+  const handlePick = (point: PIXI.IPointData) => {
+    const spine = spineRef.current;
+    const container = mainContainerRef.current;
+    if (!spine || !container) return;
+    const local = spine.toLocal(point);
+    const result = pickAt(
+        spine.skeleton,
+        local.x,
+        local.y,
+        PICK_BONE_RADIUS / container.scale.x,
+        (slot) => spine.slotContainers[slot.data.index].renderable
+    );
+    setPickResult(result);
+    setSelectedBone(result.bone);
+  };
+
+  // Starts dragging the selected bone, or the bone nearest the pointer. IK targets always translate so the chain follows.
+  const startPoseDrag = (point: PIXI.IPointData): boolean => {
+    const spine = spineRef.current;
+    const container = mainContainerRef.current;
+    if (!spine || !container) return false;
+    const skeleton = spine.skeleton;
+    const local = spine.toLocal(point);
+    const radius = PICK_BONE_RADIUS / container.scale.x;
+    const selected = selectedBone ? skeleton.findBone(selectedBone) : null;
+    const bone = selected && boneDistance(selected, local.x, local.y) <= radius
+        ? selected
+        : pickBone(skeleton, local.x, local.y, radius);
+    if (!bone) return false;
+
+    const isIkTarget = skeleton.ikConstraints.some(c => c.target === bone);
+    const pointer = worldToParentLocal(bone, local.x, local.y);
+    poseDragRef.current = {
+        bone: bone.data.name,
+        action: isIkTarget ? 'translate' : poseAction,
+        startAngle: Math.atan2(pointer.y - bone.y, pointer.x - bone.x) * 180 / Math.PI,
+        startRotation: bone.rotation,
+        offsetX: pointer.x - bone.x,
+        offsetY: pointer.y - bone.y,
+    };
+    setSelectedBone(bone.data.name);
+    return true;
+  };
+
+  const updatePoseDrag = (point: PIXI.IPointData) => {
+    const drag = poseDragRef.current;
+    const spine = spineRef.current;
+    const bone = drag && spine ? spine.skeleton.findBone(drag.bone) : null;
+    if (!drag || !spine || !bone) return;
+    const local = spine.toLocal(point);
+    const pointer = worldToParentLocal(bone, local.x, local.y);
+    // The bone already carries last frame's overrides, so it is the pivot for rotation
+    const pose: BonePose = { ...bonePoseRef.current[drag.bone] };
+    if (drag.action === 'rotate') {
+        const angle = Math.atan2(pointer.y - bone.y, pointer.x - bone.x) * 180 / Math.PI;
+        pose.rotation = drag.startRotation + angle - drag.startAngle;
+    } else {
+        pose.x = pointer.x - drag.offsetX;
+        pose.y = pointer.y - drag.offsetY;
+    }
+    bonePoseRef.current = { ...bonePoseRef.current, [drag.bone]: pose };
+  };
+
+  const endPoseDrag = () => {
+    if (!poseDragRef.current) return;
+    poseDragRef.current = null;
+    setPosedBones(Object.keys(bonePoseRef.current));
+  };
+
+  // Drops every dragged pose; the animation (if any) takes the bones over again on the next frame
+  const handleResetPose = () => {
+    bonePoseRef.current = {};
+    setPosedBones([]);
+    spineRef.current?.skeleton.setBonesToSetupPose();
+  };
+
+  stageToolRef.current = {
+    down: (point) => {
+        if (toolMode === 'pick') {
+            handlePick(point);
+            return true;
+        }
+        return toolMode === 'pose' && startPoseDrag(point);
+    },
+    move: updatePoseDrag,
+    up: endPoseDrag,
+  };
+
+  useEffect(() => {
+    toolModeRef.current = toolMode;
+    const view = appRef.current?.view;
+    if (view?.style) view.style.cursor = TOOL_CURSORS[toolMode];
+    if (toolMode !== 'pick') setPickResult(null);
+  }, [toolMode]);
+
   // Handle Spine Model Loading
   useEffect(() => {
     if (!appRef.current || !spineModel || !mainContainerRef.current) return;
@@ -577,6 +851,22 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
     // 2. Create Spine
     const spine = new Spine(spineModel.spine.skeleton.data); 
     spineRef.current = spine;
+    setSkeleton(spine.skeleton);
+    setSelectedBone(null);
+    setPickResult(null);
+    bonePoseRef.current = {};
+    setPosedBones([]);
+    setHiddenSlots(new Set());
+    setSoloSlot(null);
+    attachmentLocksRef.current = {};
+    setAttachmentLocks({});
+    constraintOverridesRef.current = {};
+    setConstraintOverrides({});
+    installPoseOverrides(spine.state, () => ({
+      attachments: attachmentLocksRef.current,
+      bones: bonePoseRef.current,
+      constraints: constraintOverridesRef.current,
+    }));
 
     // 3. Create Debug Graphics (Layered on top of Spine)
     const debugG = new PIXI.Graphics();
@@ -585,6 +875,34 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
     mainContainerRef.current.addChild(spine as any);
     mainContainerRef.current.addChild(debugG);
 
+    // Feed fired Spine events into the event log
+    setEventLog([]);
+    spine.state.addListener({
+        event: (entry, event) => {
+            const record: SpineEventRecord = {
+                id: eventIdRef.current++,
+                timestamp: Date.now(),
+                trackIndex: entry.trackIndex,
+                animation: entry.animation.name,
+                time: event.time,
+                name: event.data.name,
+                intValue: event.intValue,
+                floatValue: event.floatValue,
+                stringValue: event.stringValue || '',
+                audioPath: event.data.audioPath || '',
+                volume: event.volume,
+                balance: event.balance,
+            };
+            setEventLog(prev => [...prev.slice(-(MAX_EVENT_LOG - 1)), record]);
+        }
+    });
+
+    // Crossfade durations used when switching animations
+    applyMixConfig(spine.stateData, mixConfig);
+
+    // Apply selected skin(s) before the first pose
+    applySkins(spine.skeleton, skins);
+
     // Apply animation immediately if one is selected
     if (animation) {
         try {
@@ -593,24 +911,22 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
             console.warn("Auto-play: Animation not found:", animation);
         }
     }
+
+    // Layered overlay tracks
+    applyTrackLayers(spine.state, tracks);
     
     // Apply initial timeScale
     spine.state.timeScale = timeScale;
 
-    // Reset Container Position to Center
-    const cx = appRef.current.screen.width / 2;
-    const cy = appRef.current.screen.height / 2 + 200; 
-    
-    mainContainerRef.current.x = cx;
-    mainContainerRef.current.y = cy;
-    mainContainerRef.current.scale.set(1); 
-    setZoomLevel(1);
-    
     spine.x = 0;
     spine.y = 0;
 
+    // Frame the new model according to the scale mode
+    applyFraming();
+
     // Initial Stats
     updateStats();
+    setPlayRange(null);
 
   }, [spineModel]); // Only re-run when model object changes
 
@@ -627,6 +943,12 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
             } else {
                 debugGraphicsRef.current.clear();
             }
+            if (selectedBone) {
+                drawBoneHighlight(spineRef.current.skeleton, selectedBone, debugGraphicsRef.current);
+            }
+            if (pickResult?.slot) {
+                drawSlotHighlight(spineRef.current.skeleton, pickResult.slot, debugGraphicsRef.current);
+            }
         }
     };
 
@@ -635,19 +957,40 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
     return () => {
         appRef.current?.ticker.remove(tickerFunc);
     };
-  }, [debugConfig]);
+  }, [debugConfig, selectedBone, pickResult]);
 
   // Handle Animation Change (Secondary)
   useEffect(() => {
     if (!spineRef.current || !animation) return;
     try {
         spineRef.current.state.setAnimation(0, animation, loop);
+        setPlayRange(null);
+        applyFraming();
         setTimeout(updateStats, 0);
     } catch (e) {
         console.warn("Animation not found:", animation);
     }
   }, [animation]); 
 
+  // Handle Skin Change
+  useEffect(() => {
+    if (!spineRef.current) return;
+    applySkins(spineRef.current.skeleton, skins);
+    setTimeout(updateStats, 0);
+  }, [skins]);
+
+  // Handle Mix Config Changes
+  useEffect(() => {
+    if (!spineRef.current) return;
+    applyMixConfig(spineRef.current.stateData, mixConfig);
+  }, [mixConfig]);
+
+  // Handle Overlay Track Changes
+  useEffect(() => {
+    if (!spineRef.current) return;
+    applyTrackLayers(spineRef.current.state, tracks);
+  }, [tracks]);
+
   // Handle Loop Toggle
   useEffect(() => {
     if (!spineRef.current) return;
@@ -663,17 +1006,110 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
     spineRef.current.state.timeScale = timeScale;
   }, [timeScale]);
 
-  // Handle Resize
+  // Timeline: read the animation time of track 0
+  const getTrackTime = useCallback(() => {
+    const entry = spineRef.current?.state.getCurrent(0);
+    return entry ? entry.getAnimationTime() : null;
+  }, []);
+
+  // Timeline: move track 0 to an absolute animation time and refresh the pose immediately
+  const seekTo = (time: number) => {
+    const spine = spineRef.current;
+    const entry = spine?.state.getCurrent(0);
+    if (!spine || !entry) return;
+
+    // A looping entry wraps exactly at animationEnd, so stop just short of it
+    const maxTime = entry.loop ? Math.max(entry.animationStart, entry.animationEnd - 1e-4) : entry.animationEnd;
+    const clamped = Math.min(Math.max(time, entry.animationStart), maxTime);
+    entry.trackTime = clamped - entry.animationStart;
+    // Prevent event/attachment keys between the old and new time from firing
+    entry.setAnimationLast(clamped);
+    spine.update(0);
+  };
+
+  // Apply the in/out range to track 0, keeping the playhead where it is when possible
+  useEffect(() => {
+    const entry = spineRef.current?.state.getCurrent(0);
+    if (!entry) return;
+    const currentTime = entry.getAnimationTime();
+    entry.animationStart = playRange ? playRange.start : 0;
+    entry.animationEnd = playRange ? playRange.end : entry.animation.duration;
+    seekTo(currentTime);
+  }, [playRange]);
+
+  // Upload every atlas page with the model's alpha mode
+  const alphaState = spineModel ? resolveAlphaState(spineModel.textureInfo.map(t => t.alpha), alphaMode) : null;
+  useEffect(() => {
+    if (spineModel && alphaState) applyAlphaMode(spineModel.atlas, alphaState.pma);
+  }, [spineModel, alphaState?.pma]);
+
+  // Slot visibility from the slot inspector. SpineBase resets `visible` every update, so `renderable` is used
+  useEffect(() => {
+    const spine = spineRef.current;
+    if (!spine) return;
+    spine.skeleton.slots.forEach((slot, i) => {
+        const name = slot.data.name;
+        spine.slotContainers[i].renderable = soloSlot ? soloSlot === name : !hiddenSlots.has(name);
+    });
+  }, [skeleton, hiddenSlots, soloSlot]);
+
+  const updateAttachmentLocks = (locks: Record<string, string | null>) => {
+    attachmentLocksRef.current = locks;
+    setAttachmentLocks(locks);
+  };
+
+  const handleSetAttachment = (slotName: string, attachmentName: string | null) => {
+    if (!spineRef.current) return;
+    spineRef.current.skeleton.setAttachment(slotName, attachmentName ?? undefined);
+    if (slotName in attachmentLocks) updateAttachmentLocks({ ...attachmentLocks, [slotName]: attachmentName });
+    updateStats();
+  };
+
+  const handleToggleLock = (slotName: string, attachmentName: string | null) => {
+    const { [slotName]: existing, ...rest } = attachmentLocks;
+    updateAttachmentLocks(existing !== undefined ? rest : { ...attachmentLocks, [slotName]: attachmentName });
+  };
+
+  const handleResetSlot = (slotName: string) => {
+    const { [slotName]: _, ...rest } = attachmentLocks;
+    updateAttachmentLocks(rest);
+    spineRef.current?.skeleton.findSlot(slotName)?.setToSetupPose();
+    updateStats();
+  };
+
+  // Values no longer overridden go back to the data; animations key them again on the next frame
+  const handleConstraintChange = (key: string, override: ConstraintOverride | null) => {
+    const { [key]: _, ...rest } = constraintOverrides;
+    const next = override ? { ...rest, [key]: override } : rest;
+    if (spineRef.current) resetConstraint(spineRef.current.skeleton, key);
+    constraintOverridesRef.current = next;
+    setConstraintOverrides(next);
+  };
+
+  const toggleHiddenSlot = (name: string) => {
+    const next = new Set(hiddenSlots);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    setHiddenSlots(next);
+  };
+
+  // Handle Framing Mode Change
+  useEffect(() => {
+    applyFraming();
+  }, [scaleMode, framingBounds]);
+
+  // Handle Resize (re-registered so the framing uses the current mode)
   useEffect(() => {
     const handleResize = () => {
         if (appRef.current && mainContainerRef.current) {
            appRef.current.resize();
            appRef.current.stage.hitArea = appRef.current.screen; 
+           applyFraming();
         }
     };
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
-  }, []);
+  }, [scaleMode, framingBounds, animation, skins, tracks]);
 
   // Zoom Handler
   const handleWheel = (e: React.WheelEvent) => {
@@ -685,18 +1121,15 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
   };
 
   const handleResetZoom = () => {
-    if (!mainContainerRef.current || !appRef.current) return;
-    const cx = appRef.current.screen.width / 2;
-    const cy = appRef.current.screen.height / 2 + 200;
-    mainContainerRef.current.scale.set(1);
-    mainContainerRef.current.position.set(cx, cy);
-    setZoomLevel(1);
+    applyFraming();
   };
 
-  const handleOpenTextureInfo = (tex: any) => {
+  const handleOpenTextureInfo = (tex: TextureInfo) => {
       setSelectedTexture(tex);
   };
 
+  const budgetClass = (metric: BudgetMetric, value: number) => BUDGET_STATUS_CLASSES[getBudgetStatus(budgetRules, metric, value)];
+
   return (
     <div 
         ref={containerRef} 
@@ -727,38 +1160,87 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
                         <div className="grid grid-cols-3 gap-2">
                              <div>
                                 <div className="text-[10px] text-zinc-500">骨骼数</div>
-                                <div className={`font-mono text-base ${stats.totalBones > 500 ? 'text-red-500 font-bold' : ''}`}>{stats.totalBones}</div>
+                                <div className={`font-mono text-base ${budgetClass('bones', stats.totalBones)}`}>{stats.totalBones}</div>
                              </div>
                              <div>
                                 <div className="text-[10px] text-zinc-500">插槽数</div>
-                                <div className="font-mono text-base">{stats.totalSlots}</div>
+                                <div className={`font-mono text-base ${budgetClass('slots', stats.totalSlots)}`}>{stats.totalSlots}</div>
                              </div>
                              <div>
                                 <div className="text-[10px] text-zinc-500">约束数</div>
-                                <div className="font-mono text-base">{stats.totalConstraints}</div>
+                                <div className={`font-mono text-base ${budgetClass('constraints', stats.totalConstraints)}`}>{stats.totalConstraints}</div>
+                             </div>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2 mt-2">
+                             <div>
+                                <div className="text-[10px] text-zinc-500">版本</div>
+                                <div className="font-mono text-xs">{spineModel.info.version || '未知'}</div>
+                             </div>
+                             <div className="min-w-0">
+                                <div className="text-[10px] text-zinc-500">Hash</div>
+                                <div className="font-mono text-xs truncate" title={spineModel.info.hash || ''}>{spineModel.info.hash || '-'}</div>
+                             </div>
+                             <div>
+                                <div className="text-[10px] text-zinc-500">非必要数据</div>
+                                <div className="font-mono text-xs">
+                                    {spineModel.info.nonessential === null ? '-' : spineModel.info.nonessential ? '包含' : '未包含'}
+                                </div>
                              </div>
                         </div>
                     </div>
 
                     {/* Section 2: Attachments */}
                     <div>
-                        <div className="text-xs text-emerald-400 font-bold uppercase tracking-wider mb-2 border-b border-emerald-500/20 pb-1">
+                        <div className="text-xs text-emerald-400 font-bold uppercase tracking-wider mb-2 border-b border-emerald-500/20 pb-1 flex items-center justify-between">
                             附件信息 (Attachments)
+                            <button
+                                onClick={() => setIsSweepOpen(true)}
+                                className="flex items-center gap-1 normal-case tracking-normal font-medium px-1.5 py-0.5 rounded text-zinc-400 hover:bg-zinc-800 transition-colors"
+                                title="逐帧扫描整段动画，找出峰值帧"
+                            >
+                                <Activity size={12} />
+                                性能扫描
+                            </button>
                         </div>
                         <div className="grid grid-cols-2 gap-2">
                              <div>
                                 <div className="text-[10px] text-zinc-500">渲染顶点数</div>
-                                <div className={`font-mono text-base ${stats.activeVertices > 1000 ? 'text-red-500 font-bold' : ''}`}>{stats.activeVertices}</div>
+                                <div className={`font-mono text-base ${budgetClass('vertices', stats.activeVertices)}`}>{stats.activeVertices}</div>
                              </div>
                              <div>
                                 <div className="text-[10px] text-zinc-500">渲染三角形</div>
-                                <div className="font-mono text-base">{stats.activeTriangles}</div>
+                                <div className={`font-mono text-base ${budgetClass('triangles', stats.activeTriangles)}`}>{stats.activeTriangles}</div>
+                             </div>
+                             <div className="col-span-2">
+                                <div className="text-[10px] text-zinc-500 flex items-center justify-between">
+                                    <span title="按换页、混合模式与剪裁边界估算，实际合批取决于运行时">Draw Calls (估算)</span>
+                                    {stats.batchBreaks.length > 0 && (
+                                        <button
+                                            onClick={() => setShowBatchBreaks(!showBatchBreaks)}
+                                            className="flex items-center gap-0.5 text-zinc-400 hover:text-white"
+                                        >
+                                            合批中断 {stats.batchBreaks.length}
+                                            {showBatchBreaks ? <ChevronUp size={10} /> : <ChevronDown size={10} />}
+                                        </button>
+                                    )}
+                                </div>
+                                <div className={`font-mono text-base ${budgetClass('drawCalls', stats.drawCalls)}`}>{stats.drawCalls}</div>
+                                {showBatchBreaks && stats.batchBreaks.length > 0 && (
+                                    <div className="mt-1 max-h-32 overflow-y-auto custom-scrollbar space-y-0.5 text-[10px] font-mono">
+                                        {stats.batchBreaks.map((b, i) => (
+                                            <div key={i} className="text-zinc-400 truncate" title={`${b.from} → ${b.to}`}>
+                                                <span className="text-zinc-300">{b.from}</span> → <span className="text-zinc-300">{b.to}</span>
+                                                : <span className="text-amber-300">{b.reasons.map(reason => BATCH_BREAK_LABELS[reason]).join(', ')}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                              </div>
                         </div>
                     </div>
 
                     {/* Section 3: Features */}
-                    {(stats.features.length > 0 || stats.blendModes.length > 0) && (
+                    {alphaState && (
                         <div>
                             <div className="text-xs text-amber-400 font-bold uppercase tracking-wider mb-2 border-b border-amber-500/20 pb-1">
                                 特性与模式 (Features)
@@ -774,27 +1256,67 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
                                         {f}
                                     </span>
                                 ))}
+                                <span
+                                    className={`px-2 py-0.5 font-semibold rounded text-[10px] border ${alphaState.mismatch ? 'bg-amber-900/40 text-amber-200 border-amber-500/40' : 'bg-zinc-800 text-zinc-300 border-zinc-700'}`}
+                                    title={`图集声明: ${alphaState.declared === null ? '无' : `pma: ${alphaState.declared}`} • 像素检测: ${alphaState.detected === null ? '无法判断' : alphaState.detected ? 'PMA' : 'Straight'}`}
+                                >
+                                    {alphaState.pma ? 'PMA' : 'Straight'} • {ALPHA_SOURCE_LABELS[alphaState.source]}
+                                </span>
+                                <select
+                                    value={alphaMode}
+                                    onChange={(e) => onAlphaModeChange(e.target.value as AlphaMode)}
+                                    className="bg-zinc-800 border border-zinc-700 rounded text-[10px] text-zinc-300 px-1 py-0.5 focus:outline-none cursor-pointer"
+                                    title="预乘 Alpha 模式，应用于所有纹理页面"
+                                >
+                                    <option value="auto">自动</option>
+                                    <option value="pma">强制 PMA</option>
+                                    <option value="straight">强制 Straight</option>
+                                </select>
                             </div>
+                            {alphaState.mismatch && (
+                                <div className="flex items-start gap-1 mt-1.5 text-[10px] text-amber-400">
+                                    <AlertTriangle size={10} className="shrink-0 mt-0.5" />
+                                    {alphaState.mismatch}
+                                </div>
+                            )}
                         </div>
                     )}
 
                     {/* Section 4: Images */}
                     {spineModel.textureInfo.length > 0 && (
                         <div>
-                             <div className="text-xs text-blue-400 font-bold uppercase tracking-wider mb-2 border-b border-blue-500/20 pb-1">
+                             <div className="text-xs text-blue-400 font-bold uppercase tracking-wider mb-2 border-b border-blue-500/20 pb-1 flex items-center justify-between">
                                 图片资源 (Images)
+                                <button
+                                    onClick={() => setIsRegionReportOpen(true)}
+                                    className={`flex items-center gap-1 normal-case tracking-normal font-medium px-1.5 py-0.5 rounded hover:bg-zinc-800 transition-colors ${
+                                        spineModel.regionReport.missing.length > 0 ? 'text-red-400' : spineModel.regionReport.unused.length > 0 ? 'text-amber-400' : 'text-zinc-400'
+                                    }`}
+                                    title="未使用 / 缺失区域报告"
+                                >
+                                    <ClipboardList size={12} />
+                                    区域报告
+                                    {(spineModel.regionReport.unused.length > 0 || spineModel.regionReport.missing.length > 0) && (
+                                        <span className="font-mono">
+                                            {spineModel.regionReport.unused.length}/{spineModel.regionReport.missing.length}
+                                        </span>
+                                    )}
+                                </button>
                             </div>
                             <div className="space-y-2 max-h-32 overflow-y-auto pr-1 custom-scrollbar">
                                 {spineModel.textureInfo.map((tex, i) => {
-                                    const isLargeDim = tex.width > 1024 || tex.height > 1024;
-                                    const isLargeSize = tex.size > 2 * 1024 * 1024; // 2MB
                                     return (
                                         <div key={i} className="flex justify-between items-center text-xs bg-zinc-900/50 p-2 rounded group hover:bg-zinc-800 transition-colors">
-                                            <span className="text-zinc-200 truncate max-w-[100px]" title={tex.name}>{tex.name}</span>
+                                            <span
+                                                className={`truncate max-w-[100px] ${!tex.imagePath ? 'text-red-400' : tex.candidates.length > 1 ? 'text-amber-300' : 'text-zinc-200'}`}
+                                                title={tex.imagePath ? `${tex.name} → ${tex.imagePath}` : `${tex.name} (缺失)`}
+                                            >
+                                                {tex.name}
+                                            </span>
                                             <div className="flex items-center gap-2">
                                                 <div className="flex gap-2 text-zinc-400 font-mono font-medium">
-                                                    <span className={isLargeDim ? 'text-red-500 font-bold' : ''}>{tex.width}x{tex.height}</span>
-                                                    <span className={isLargeSize ? 'text-red-500 font-bold' : ''}>{formatBytes(tex.size)}</span>
+                                                    <span className={budgetClass('textureDimension', Math.max(tex.width, tex.height))}>{tex.width}x{tex.height}</span>
+                                                    <span className={budgetClass('textureBytes', tex.size)}>{formatBytes(tex.size)}</span>
                                                 </div>
                                                 <button 
                                                     onClick={(e) => { e.stopPropagation(); handleOpenTextureInfo(tex); }}
@@ -815,9 +1337,59 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
             </div>
         )}
 
+        {/* Timeline */}
+        {spineModel && animation && (
+            <div className="absolute bottom-4 left-6 right-6 z-20">
+                <Timeline
+                    duration={animStats.duration}
+                    fps={animStats.fps}
+                    frameCount={animStats.frameCount}
+                    getTime={getTrackTime}
+                    onSeek={seekTo}
+                    onScrubStart={() => onRequestPause?.()}
+                    range={playRange}
+                    onRangeChange={setPlayRange}
+                    markers={eventKeys}
+                />
+            </div>
+        )}
+
+        {/* Load Warnings, Event Log & Inspectors */}
+        {spineModel && (
+            <div className="absolute top-20 right-6 z-20 select-none flex flex-col gap-3 max-h-[calc(100%-12rem)] overflow-y-auto custom-scrollbar">
+                <LoadWarningsPanel warnings={spineModel.loadWarnings} />
+                {toolMode === 'pick' && <PickPanel result={pickResult} onClear={() => setPickResult(null)} />}
+                <EventLog events={eventLog} onClear={() => setEventLog([])} />
+                <BoneInspector
+                    skeleton={skeleton}
+                    animation={animation}
+                    selectedBone={selectedBone}
+                    onSelectBone={setSelectedBone}
+                />
+                <SlotInspector
+                    skeleton={skeleton}
+                    animation={animation}
+                    hiddenSlots={hiddenSlots}
+                    soloSlot={soloSlot}
+                    onToggleHidden={toggleHiddenSlot}
+                    onToggleSolo={(name) => setSoloSlot(soloSlot === name ? null : name)}
+                    selectedSlot={pickResult?.slot || null}
+                    attachmentLocks={attachmentLocks}
+                    onSetAttachment={handleSetAttachment}
+                    onToggleLock={handleToggleLock}
+                    onResetSlot={handleResetSlot}
+                />
+                <ConstraintInspector
+                    skeleton={skeleton}
+                    overrides={constraintOverrides}
+                    onChange={handleConstraintChange}
+                />
+            </div>
+        )}
+
         {/* Bottom Left Controls */}
         {spineModel && (
-            <div className="absolute bottom-4 left-6 z-20 flex items-center gap-4">
+            <div className={`absolute ${animation ? 'bottom-20' : 'bottom-4'} left-6 z-20 flex items-center gap-4`}>
                 <div className="bg-zinc-900/80 backdrop-blur border border-zinc-700 text-zinc-300 px-3 py-2 rounded-full text-xs font-mono shadow-lg">
                     {Math.round(zoomLevel * 100)}%
                 </div>
@@ -827,9 +1399,110 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
                 >
                     <RotateCcw size={14} /> 重置缩放
                 </button>
+                <div className="flex items-center bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-full shadow-lg p-0.5 text-xs font-medium">
+                    {(Object.keys(SCALE_MODE_LABELS) as ScaleMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => scaleMode === mode ? applyFraming() : onScaleModeChange(mode)}
+                            className={`px-3 py-1.5 rounded-full transition-colors ${scaleMode === mode ? 'bg-indigo-600 text-white' : 'text-zinc-400 hover:text-white'}`}
+                            title="取景模式 (Framing)"
+                        >
+                            {SCALE_MODE_LABELS[mode]}
+                        </button>
+                    ))}
+                    <select
+                        value={framingBounds}
+                        onChange={(e) => onFramingBoundsChange(e.target.value as FramingBounds)}
+                        className="bg-transparent text-zinc-400 hover:text-white pl-2 pr-1 py-1.5 focus:outline-none cursor-pointer"
+                        title="取景包围盒来源"
+                    >
+                        <option value="setup" className="bg-zinc-900">初始姿势</option>
+                        <option value="animation" className="bg-zinc-900">整段动画</option>
+                    </select>
+                </div>
+                <div className="flex items-center bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-full shadow-lg p-0.5 text-xs font-medium">
+                    {([
+                        ['pan', <Hand size={14} />, '平移', '拖动画布'],
+                        ['pick', <MousePointerClick size={14} />, '拾取', '点击骨架选择插槽、骨骼并检测包围盒'],
+                        ['pose', <Move size={14} />, '姿势', '拖动骨骼旋转或平移；拖动 IK 目标会带动整条骨骼链'],
+                    ] as [ToolMode, React.ReactNode, string, string][]).map(([mode, icon, label, title]) => (
+                        <button
+                            key={mode}
+                            onClick={() => setToolMode(mode)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full transition-colors ${toolMode === mode ? 'bg-indigo-600 text-white' : 'text-zinc-400 hover:text-white'}`}
+                            title={title}
+                        >
+                            {icon} {label}
+                        </button>
+                    ))}
+                    {toolMode === 'pose' && (
+                        <>
+                            <select
+                                value={poseAction}
+                                onChange={(e) => setPoseAction(e.target.value as PoseAction)}
+                                className="bg-transparent text-zinc-400 hover:text-white pl-2 pr-1 py-1.5 focus:outline-none cursor-pointer"
+                                title="拖动骨骼时的操作 (IK 目标总是平移)"
+                            >
+                                <option value="rotate" className="bg-zinc-900">旋转</option>
+                                <option value="translate" className="bg-zinc-900">平移</option>
+                            </select>
+                            <button
+                                onClick={handleResetPose}
+                                disabled={posedBones.length === 0}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded-full text-zinc-400 hover:text-white disabled:opacity-40"
+                                title={posedBones.length > 0 ? `已调整: ${posedBones.join(', ')}` : '没有调整过的骨骼'}
+                            >
+                                <RotateCcw size={12} /> 重置姿势{posedBones.length > 0 ? ` (${posedBones.length})` : ''}
+                            </button>
+                        </>
+                    )}
+                </div>
+                <button
+                    onClick={() => setIsExportOpen(true)}
+                    disabled={!animation}
+                    className="flex items-center gap-2 px-4 py-2 bg-zinc-800/80 backdrop-blur border border-zinc-700 text-zinc-300 hover:text-white hover:bg-zinc-700 rounded-full shadow-lg transition-all text-xs font-medium disabled:opacity-40"
+                >
+                    <Film size={14} /> 导出帧
+                </button>
             </div>
         )}
 
+        {/* Export Modal */}
+        <ExportModal
+            isOpen={isExportOpen}
+            onClose={() => setIsExportOpen(false)}
+            getRenderer={() => (appRef.current?.renderer as PIXI.Renderer) || null}
+            source={spineModel && animation ? {
+                name: spineModel.name,
+                skeletonData: spineModel.spine.skeleton.data,
+                animation,
+                skins,
+                tracks,
+            } : null}
+            defaultFps={animStats.fps}
+            backgroundColor={backgroundColor}
+        />
+
+        {/* Region Report Modal */}
+        <RegionReportModal
+            isOpen={isRegionReportOpen}
+            onClose={() => setIsRegionReportOpen(false)}
+            modelName={spineModel?.name || ''}
+            report={spineModel?.regionReport || null}
+        />
+
+        {/* Performance Sweep Modal */}
+        <PerformanceSweepModal
+            isOpen={isSweepOpen}
+            onClose={() => setIsSweepOpen(false)}
+            modelName={spineModel?.name || ''}
+            skeletonData={spineModel?.spine.skeleton.data || null}
+            skins={skins}
+            tracks={tracks}
+            currentAnimation={animation}
+            fps={animStats.fps}
+        />
+
         {/* Texture Modal */}
         <TextureAtlasModal 
             isOpen={!!selectedTexture}
@@ -838,6 +1511,14 @@ export const SpineCanvas: React.FC<SpineCanvasProps> = ({
             textureUrl={selectedTexture?.url || ''}
             width={selectedTexture?.width || 0}
             height={selectedTexture?.height || 0}
+            regions={selectedTexture?.regions || []}
+            imagePath={selectedTexture?.imagePath || ''}
+            candidates={selectedTexture?.candidates || []}
+            imagePaths={imagePaths}
+            onImageChange={(path) => {
+                if (selectedTexture) onTextureOverride(selectedTexture.name, path);
+                setSelectedTexture(null);
+            }}
             currentAnimation={animation}
             animDuration={animStats.duration}
             animFps={animStats.fps}
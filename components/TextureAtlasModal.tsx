@@ -1,5 +1,6 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { X, ZoomIn, ZoomOut, Move } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { X, ZoomIn, ZoomOut, Move, LayoutGrid, Search } from 'lucide-react';
+import { AtlasRegionInfo } from '../types';
 
 interface TextureAtlasModalProps {
   isOpen: boolean;
@@ -8,6 +9,11 @@ interface TextureAtlasModalProps {
   textureUrl: string;
   width: number;
   height: number;
+  regions: AtlasRegionInfo[];
+  imagePath: string; // Uploaded image bound to the page, '' when missing
+  candidates: string[]; // Images that matched the page name
+  imagePaths: string[]; // All uploaded images
+  onImageChange: (imagePath: string) => void;
   // Animation specific info
   currentAnimation: string;
   animDuration: number;
@@ -22,6 +28,11 @@ export const TextureAtlasModal: React.FC<TextureAtlasModalProps> = ({
   textureUrl,
   width,
   height,
+  regions,
+  imagePath,
+  candidates,
+  imagePaths,
+  onImageChange,
   currentAnimation,
   animDuration,
   animFps,
@@ -31,16 +42,39 @@ export const TextureAtlasModal: React.FC<TextureAtlasModalProps> = ({
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const dragStartRef = useRef({ x: 0, y: 0 });
+  const dragMovedRef = useRef(false);
   const imgRef = useRef<HTMLImageElement>(null);
 
+  // Region overlay state
+  const [showRegions, setShowRegions] = useState(true);
+  const [hoveredRegion, setHoveredRegion] = useState<AtlasRegionInfo | null>(null);
+  const [selectedRegion, setSelectedRegion] = useState<AtlasRegionInfo | null>(null);
+  const [regionSearch, setRegionSearch] = useState('');
+
   // Reset state when opening
   useEffect(() => {
     if (isOpen) {
       setScale(Math.min(1, 800 / Math.max(width, height))); // Auto fit roughly (adjusted for larger view)
       setPosition({ x: 0, y: 0 });
+      setHoveredRegion(null);
+      setSelectedRegion(null);
+      setRegionSearch('');
     }
   }, [isOpen, width, height]);
 
+  const filteredRegions = useMemo(() => {
+    const query = regionSearch.trim().toLowerCase();
+    const sorted = [...regions].sort((a, b) => a.name.localeCompare(b.name) || a.index - b.index);
+    return query ? sorted.filter(r => r.name.toLowerCase().includes(query)) : sorted;
+  }, [regions, regionSearch]);
+
+  // Share of the page covered by packed regions; the rest is padding or wasted space
+  const coverage = useMemo(() => {
+    if (width <= 0 || height <= 0) return 0;
+    const used = regions.reduce((sum, r) => sum + r.frame.width * r.frame.height, 0);
+    return Math.min(1, used / (width * height));
+  }, [regions, width, height]);
+
   if (!isOpen) return null;
 
   const handleWheel = (e: React.WheelEvent) => {
@@ -51,11 +85,13 @@ export const TextureAtlasModal: React.FC<TextureAtlasModalProps> = ({
 
   const handleMouseDown = (e: React.MouseEvent) => {
     setIsDragging(true);
+    dragMovedRef.current = false;
     dragStartRef.current = { x: e.clientX - position.x, y: e.clientY - position.y };
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
     if (isDragging) {
+      dragMovedRef.current = true;
       setPosition({
         x: e.clientX - dragStartRef.current.x,
         y: e.clientY - dragStartRef.current.y,
@@ -67,6 +103,14 @@ export const TextureAtlasModal: React.FC<TextureAtlasModalProps> = ({
     setIsDragging(false);
   };
 
+  // Ignore the click that ends a pan so dragging over a region does not select it
+  const handleRegionClick = (region: AtlasRegionInfo) => {
+    if (dragMovedRef.current) return;
+    setSelectedRegion(region);
+  };
+
+  const regionLabel = (region: AtlasRegionInfo) => region.index >= 0 ? `${region.name} [${region.index}]` : region.name;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm" onClick={onClose}>
       <div 
@@ -96,8 +140,25 @@ export const TextureAtlasModal: React.FC<TextureAtlasModalProps> = ({
               <div className="p-2 bg-zinc-800/80 rounded text-zinc-400 pointer-events-none min-w-[50px] text-center">
                 <span className="text-xs font-mono">{Math.round(scale * 100)}%</span>
               </div>
+
+              {regions.length > 0 && (
+                <button
+                  onClick={() => setShowRegions(!showRegions)}
+                  className={`p-2 rounded hover:bg-zinc-700 ${showRegions ? 'bg-indigo-600/80 text-white' : 'bg-zinc-800/80 text-zinc-300'}`}
+                  title="显示区域边框"
+                >
+                  <LayoutGrid size={16} />
+                </button>
+              )}
            </div>
 
+           {/* Hovered region name */}
+           {showRegions && hoveredRegion && (
+             <div className="absolute top-4 right-4 z-10 px-2 py-1 bg-zinc-900/90 border border-zinc-700 rounded text-xs font-mono text-zinc-200 pointer-events-none">
+               {regionLabel(hoveredRegion)} • {hoveredRegion.frame.width}x{hoveredRegion.frame.height}{hoveredRegion.rotate ? ' • 旋转' : ''}
+             </div>
+           )}
+
            <div 
              className="flex-1 cursor-grab active:cursor-grabbing flex items-center justify-center overflow-hidden w-full h-full"
              onWheel={handleWheel}
@@ -106,18 +167,51 @@ export const TextureAtlasModal: React.FC<TextureAtlasModalProps> = ({
              onMouseUp={handleMouseUp}
              onMouseLeave={handleMouseUp}
            >
-             <div style={{ transform: `translate(${position.x}px, ${position.y}px) scale(${scale})` }} className="transition-transform duration-75 ease-out">
+             <div style={{ transform: `translate(${position.x}px, ${position.y}px) scale(${scale})` }} className="transition-transform duration-75 ease-out relative">
                 {textureUrl ? (
                    <img 
                     ref={imgRef}
                     src={textureUrl} 
                     alt={textureName} 
                     draggable={false}
-                    className="max-w-none pixelated shadow-2xl bg-[url('https://www.transparenttextures.com/patterns/black-scales.png')] bg-zinc-800"
+                    className="block max-w-none pixelated shadow-2xl bg-[url('https://www.transparenttextures.com/patterns/black-scales.png')] bg-zinc-800"
                   />
                 ) : (
                   <div className="text-zinc-500">无法加载预览</div>
                 )}
+
+                {/* Region rectangles, in page pixel coordinates */}
+                {textureUrl && showRegions && regions.length > 0 && (
+                  <svg
+                    className="absolute inset-0 w-full h-full"
+                    viewBox={`0 0 ${width} ${height}`}
+                    preserveAspectRatio="none"
+                    onMouseLeave={() => setHoveredRegion(null)}
+                  >
+                    {regions.map((region, i) => {
+                      const isSelected = selectedRegion === region;
+                      const isHovered = hoveredRegion === region;
+                      const color = region.rotate ? '#f59e0b' : '#6366f1';
+                      return (
+                        <rect
+                          key={i}
+                          x={region.frame.x}
+                          y={region.frame.y}
+                          width={region.frame.width}
+                          height={region.frame.height}
+                          fill={isSelected ? 'rgba(16, 185, 129, 0.35)' : isHovered ? 'rgba(99, 102, 241, 0.25)' : 'transparent'}
+                          stroke={isSelected ? '#10b981' : color}
+                          strokeWidth={(isSelected || isHovered ? 2 : 1) / scale}
+                          className="cursor-pointer"
+                          onMouseEnter={() => setHoveredRegion(region)}
+                          onClick={() => handleRegionClick(region)}
+                        >
+                          <title>{regionLabel(region)}</title>
+                        </rect>
+                      );
+                    })}
+                  </svg>
+                )}
              </div>
            </div>
            
@@ -127,7 +221,7 @@ export const TextureAtlasModal: React.FC<TextureAtlasModalProps> = ({
         </div>
 
         {/* Right: Info Panel */}
-        <div className="w-full md:w-96 bg-zinc-900 p-6 flex flex-col gap-6 shrink-0 relative border-l border-zinc-800">
+        <div className="w-full md:w-96 bg-zinc-900 p-6 flex flex-col gap-6 shrink-0 relative border-l border-zinc-800 overflow-y-auto custom-scrollbar">
            <button onClick={onClose} className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-300">
              <X size={20} />
            </button>
@@ -152,9 +246,119 @@ export const TextureAtlasModal: React.FC<TextureAtlasModalProps> = ({
                    <div className="text-[10px] text-zinc-500">像素数</div>
                    <div className="text-sm font-mono text-zinc-200">{((width * height) / 1000000).toFixed(2)} MP</div>
                  </div>
+                 <div>
+                   <div className="text-[10px] text-zinc-500">区域数</div>
+                   <div className="text-sm font-mono text-zinc-200">{regions.length}</div>
+                 </div>
+                 <div>
+                   <div className="text-[10px] text-zinc-500">空间利用率</div>
+                   <div className={`text-sm font-mono ${coverage < 0.5 ? 'text-amber-400' : 'text-zinc-200'}`}>{(coverage * 100).toFixed(1)}%</div>
+                 </div>
+               </div>
+               <div className="mt-4">
+                 <div className="text-[10px] text-zinc-500 mb-1 flex justify-between">
+                   来源文件
+                   {candidates.length > 1 && <span className="text-amber-400">{candidates.length} 个候选</span>}
+                 </div>
+                 <select
+                   value={imagePath}
+                   onChange={(e) => onImageChange(e.target.value)}
+                   className="w-full bg-zinc-900 border border-zinc-700 text-xs text-zinc-200 font-mono rounded px-2 py-1.5 focus:outline-none focus:border-indigo-500"
+                   title={imagePath || '缺失'}
+                 >
+                   {!imagePath && <option value="">(缺失)</option>}
+                   <optgroup label="匹配的候选">
+                     {candidates.map(p => <option key={p} value={p}>{p}</option>)}
+                   </optgroup>
+                   <optgroup label="其他图片">
+                     {imagePaths.filter(p => !candidates.includes(p)).map(p => <option key={p} value={p}>{p}</option>)}
+                   </optgroup>
+                 </select>
                </div>
              </div>
 
+             {/* Selected Region */}
+             {selectedRegion && (
+               <div className="bg-zinc-950/50 p-4 rounded-lg border border-emerald-800/60">
+                 <h4 className="text-xs font-bold text-emerald-400 uppercase tracking-wider mb-3 flex items-center justify-between gap-2">
+                   <span className="truncate" title={selectedRegion.name}>{selectedRegion.name}</span>
+                   <button onClick={() => setSelectedRegion(null)} className="text-zinc-500 hover:text-zinc-300 shrink-0">
+                     <X size={14} />
+                   </button>
+                 </h4>
+                 <div className="grid grid-cols-2 gap-3 text-xs">
+                   <div>
+                     <div className="text-[10px] text-zinc-500">位置 (xy)</div>
+                     <div className="font-mono text-zinc-200">{selectedRegion.x}, {selectedRegion.y}</div>
+                   </div>
+                   <div>
+                     <div className="text-[10px] text-zinc-500">尺寸 (size)</div>
+                     <div className="font-mono text-zinc-200">{selectedRegion.width} x {selectedRegion.height}</div>
+                   </div>
+                   <div>
+                     <div className="text-[10px] text-zinc-500">原始尺寸 (orig)</div>
+                     <div className="font-mono text-zinc-200">{selectedRegion.originalWidth} x {selectedRegion.originalHeight}</div>
+                   </div>
+                   <div>
+                     <div className="text-[10px] text-zinc-500">偏移 (offset)</div>
+                     <div className="font-mono text-zinc-200">{selectedRegion.offsetX}, {selectedRegion.offsetY}</div>
+                   </div>
+                   <div>
+                     <div className="text-[10px] text-zinc-500">旋转 (rotate)</div>
+                     <div className={`font-mono ${selectedRegion.rotate ? 'text-amber-400' : 'text-zinc-200'}`}>
+                       {selectedRegion.rotate ? `是 (${selectedRegion.degrees}°)` : '否'}
+                     </div>
+                   </div>
+                   <div>
+                     <div className="text-[10px] text-zinc-500">序号 (index)</div>
+                     <div className="font-mono text-zinc-200">{selectedRegion.index}</div>
+                   </div>
+                 </div>
+               </div>
+             )}
+
+             {/* Region List */}
+             {regions.length > 0 && (
+               <div className="bg-zinc-950/50 p-4 rounded-lg border border-zinc-800">
+                 <h4 className="text-xs font-bold text-blue-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+                   区域列表 (Regions)
+                   <span className="text-zinc-500 font-mono normal-case">{filteredRegions.length}/{regions.length}</span>
+                 </h4>
+                 <div className="relative mb-2">
+                   <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-zinc-500" />
+                   <input
+                     type="text"
+                     value={regionSearch}
+                     onChange={(e) => setRegionSearch(e.target.value)}
+                     placeholder="搜索区域..."
+                     className="w-full bg-zinc-900 border border-zinc-700 text-xs text-zinc-200 rounded pl-7 pr-2 py-1.5 focus:outline-none focus:border-indigo-500"
+                   />
+                 </div>
+                 <div className="max-h-60 overflow-y-auto custom-scrollbar space-y-0.5">
+                   {filteredRegions.map((region, i) => (
+                     <button
+                       key={i}
+                       onClick={() => setSelectedRegion(region)}
+                       onMouseEnter={() => setHoveredRegion(region)}
+                       onMouseLeave={() => setHoveredRegion(null)}
+                       className={`w-full flex justify-between items-center gap-2 px-2 py-1 rounded text-xs text-left transition-colors ${
+                         selectedRegion === region ? 'bg-emerald-900/40 text-emerald-200' : 'text-zinc-300 hover:bg-zinc-800'
+                       }`}
+                     >
+                       <span className="truncate" title={region.name}>{regionLabel(region)}</span>
+                       <span className="font-mono text-zinc-500 shrink-0">
+                         {region.rotate && <span className="text-amber-400 mr-1">R</span>}
+                         {region.frame.width}x{region.frame.height}
+                       </span>
+                     </button>
+                   ))}
+                   {filteredRegions.length === 0 && (
+                     <div className="text-xs text-zinc-600 text-center py-2">没有匹配的区域</div>
+                   )}
+                 </div>
+               </div>
+             )}
+
              {/* Animation Stats (Contextual) */}
              <div className="bg-zinc-950/50 p-4 rounded-lg border border-zinc-800">
                <h4 className="text-xs font-bold text-indigo-400 uppercase tracking-wider mb-3 flex items-center gap-2">
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, ArrowLeftToLine, ArrowRightToLine, X } from 'lucide-react';
+
+export interface PlayRange {
+  start: number;
+  end: number;
+}
+
+interface TimelineProps {
+  duration: number;
+  fps: number;
+  frameCount: number;
+  // Polled every animation frame; returns the animation time of track 0 (or null if no track)
+  getTime: () => number | null;
+  onSeek: (time: number) => void;
+  // Called when the user starts scrubbing or stepping, so playback can be paused
+  onScrubStart: () => void;
+  range: PlayRange | null;
+  onRangeChange: (range: PlayRange | null) => void;
+  // Event keys drawn as markers on the bar
+  markers?: { time: number; name: string }[];
+}
+
+export const Timeline: React.FC<TimelineProps> = ({
+  duration,
+  fps,
+  frameCount,
+  getTime,
+  onSeek,
+  onScrubStart,
+  range,
+  onRangeChange,
+  markers = []
+}) => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  // Poll the playhead position independently of the parent render cycle
+  useEffect(() => {
+    let frameId = 0;
+    const poll = () => {
+      const time = getTime();
+      if (time !== null) {
+        setCurrentTime((prev) => (Math.abs(prev - time) > 1e-4 ? time : prev));
+      }
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, [getTime]);
+
+  const currentFrame = Math.round(currentTime * fps);
+  const toPercent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
+
+  const timeFromPointer = (clientX: number) => {
+    if (!barRef.current || duration <= 0) return 0;
+    const rect = barRef.current.getBoundingClientRect();
+    const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return ratio * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsScrubbing(true);
+    onScrubStart();
+    onSeek(timeFromPointer(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (isScrubbing) {
+      onSeek(timeFromPointer(e.clientX));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setIsScrubbing(false);
+  };
+
+  const stepFrame = (delta: number) => {
+    onScrubStart();
+    const frame = Math.min(Math.max(currentFrame + delta, 0), frameCount);
+    onSeek(frame / fps);
+  };
+
+  const setInPoint = () => {
+    const end = range ? range.end : duration;
+    onRangeChange({ start: Math.min(currentTime, end), end });
+  };
+
+  const setOutPoint = () => {
+    const start = range ? range.start : 0;
+    onRangeChange({ start, end: Math.max(currentTime, start) });
+  };
+
+  const buttonClass = 'p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div
+      className="bg-zinc-900/80 backdrop-blur border border-zinc-700 rounded-xl shadow-lg px-4 py-2 flex items-center gap-4 text-xs select-none"
+      onWheel={(e) => e.stopPropagation()}
+    >
+      {/* Frame Stepping */}
+      <div className="flex items-center gap-1">
+        <button onClick={() => stepFrame(-1)} className={buttonClass} title="上一帧" disabled={duration <= 0}>
+          <ChevronLeft size={14} />
+        </button>
+        <button onClick={() => stepFrame(1)} className={buttonClass} title="下一帧" disabled={duration <= 0}>
+          <ChevronRight size={14} />
+        </button>
+      </div>
+
+      {/* Time Readout */}
+      <div className="font-mono text-zinc-300 whitespace-nowrap min-w-[150px]">
+        {currentTime.toFixed(3)}s / {duration.toFixed(3)}s
+        <span className="text-zinc-500 ml-2">帧 {currentFrame}/{frameCount}</span>
+      </div>
+
+      {/* Scrub Bar */}
+      <div
+        ref={barRef}
+        className="relative flex-1 h-6 cursor-pointer"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-1.5 bg-zinc-700 rounded-full" />
+        {range && (
+          <div
+            className="absolute top-1/2 -translate-y-1/2 h-1.5 bg-indigo-500/50 rounded-full"
+            style={{ left: `${toPercent(range.start)}%`, width: `${toPercent(range.end - range.start)}%` }}
+          />
+        )}
+        {markers.map((marker, i) => (
+          <div
+            key={i}
+            className="absolute top-0 w-1.5 h-1.5 -translate-x-1/2 rotate-45 bg-amber-400"
+            style={{ left: `${toPercent(marker.time)}%` }}
+            title={`${marker.name} @ ${marker.time.toFixed(3)}s (帧 ${Math.round(marker.time * fps)})`}
+          />
+        ))}
+        <div
+          className="absolute top-0 bottom-0 w-0.5 bg-indigo-400 shadow-[0_0_5px_rgba(99,102,241,0.8)]"
+          style={{ left: `${toPercent(currentTime)}%` }}
+        />
+      </div>
+
+      {/* In / Out Range */}
+      <div className="flex items-center gap-1">
+        <button onClick={setInPoint} className={buttonClass} title="设为入点 (In)" disabled={duration <= 0}>
+          <ArrowLeftToLine size={14} />
+        </button>
+        <button onClick={setOutPoint} className={buttonClass} title="设为出点 (Out)" disabled={duration <= 0}>
+          <ArrowRightToLine size={14} />
+        </button>
+        {range && (
+          <button onClick={() => onRangeChange(null)} className={buttonClass} title="清除区间">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
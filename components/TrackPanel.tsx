@@ -0,0 +1,119 @@
+import React from 'react';
+import { Plus, Trash2, Repeat, ListTree } from 'lucide-react';
+import { TrackConfig, TrackMixBlend } from '../types';
+
+interface TrackPanelProps {
+  animations: string[];
+  // Main animation on track 0, shown for reference
+  baseAnimation: string;
+  tracks: TrackConfig[];
+  onTracksChange: (tracks: TrackConfig[]) => void;
+}
+
+const MIX_BLEND_LABELS: Record<TrackMixBlend, string> = {
+  replace: '替换 (Replace)',
+  add: '叠加 (Add)',
+};
+
+export const TrackPanel: React.FC<TrackPanelProps> = ({
+  animations,
+  baseAnimation,
+  tracks,
+  onTracksChange
+}) => {
+  const updateTrack = (index: number, patch: Partial<TrackConfig>) => {
+    onTracksChange(tracks.map((track, i) => (i === index ? { ...track, ...patch } : track)));
+  };
+
+  const addTrack = () => {
+    onTracksChange([...tracks, { animation: '', loop: true, alpha: 1, mixBlend: 'replace' }]);
+  };
+
+  const removeTrack = (index: number) => {
+    onTracksChange(tracks.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+          <ListTree size={14} /> 动画轨道 ({tracks.length + 1})
+        </h3>
+        <button
+          onClick={addTrack}
+          disabled={animations.length === 0}
+          className="flex items-center gap-1 text-[10px] px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-40"
+        >
+          <Plus size={12} /> 添加轨道
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {/* Track 0 is driven by the animation list */}
+        <div className="flex items-center justify-between text-xs bg-zinc-950/30 px-3 py-2 rounded-lg border border-zinc-800/50">
+          <span className="text-zinc-500 font-mono">#0</span>
+          <span className="text-zinc-300 truncate ml-2 flex-1 text-right" title={baseAnimation}>{baseAnimation || '无'}</span>
+        </div>
+
+        {tracks.map((track, index) => (
+          <div key={index} className="bg-zinc-950/30 p-2 rounded-lg border border-zinc-800/50 space-y-2 text-xs">
+            <div className="flex items-center gap-2">
+              <span className="text-zinc-500 font-mono">#{index + 1}</span>
+              <select
+                value={track.animation}
+                onChange={(e) => updateTrack(index, { animation: e.target.value })}
+                className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 text-zinc-300 rounded px-1.5 py-1 focus:outline-none focus:border-indigo-500"
+              >
+                <option value="">(空)</option>
+                {animations.map((anim) => (
+                  <option key={anim} value={anim}>{anim}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => updateTrack(index, { loop: !track.loop })}
+                className={`p-1 rounded border transition-all ${track.loop ? 'bg-indigo-600/20 border-indigo-500 text-indigo-400' : 'bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300'}`}
+                title="循环播放"
+              >
+                <Repeat size={12} />
+              </button>
+              <button
+                onClick={() => removeTrack(index)}
+                className="p-1 rounded text-zinc-500 hover:text-red-400 hover:bg-red-900/20 transition-colors"
+                title="移除轨道"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-zinc-500 w-10">Alpha</span>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={track.alpha}
+                onChange={(e) => updateTrack(index, { alpha: parseFloat(e.target.value) })}
+                className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+              />
+              <span className="font-mono text-zinc-400 w-8 text-right">{track.alpha.toFixed(2)}</span>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-zinc-500 w-10">混合</span>
+              <select
+                value={track.mixBlend}
+                onChange={(e) => updateTrack(index, { mixBlend: e.target.value as TrackMixBlend })}
+                className="flex-1 bg-zinc-900 border border-zinc-700 text-zinc-300 rounded px-1.5 py-1 focus:outline-none focus:border-indigo-500"
+              >
+                {(Object.keys(MIX_BLEND_LABELS) as TrackMixBlend[]).map((blend) => (
+                  <option key={blend} value={blend}>{MIX_BLEND_LABELS[blend]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,335 @@
+import * as PIXI from 'pixi.js';
+import { Spine, SkeletonData } from '@pixi-spine/runtime-3.8';
+import { TrackConfig } from '../types';
+import { applySkins, applyTrackLayers } from '../utils/spineHelpers';
+import { createZip, ZipEntry } from '../utils/zip';
+import { encodeGif } from '../utils/gifEncoder';
+import { encodeApng } from '../utils/apngEncoder';
+
+// What to capture: the same skeleton, skins and tracks as the live view
+export interface CaptureSource {
+  name: string;
+  skeletonData: SkeletonData;
+  animation: string;
+  skins: string[];
+  tracks: TrackConfig[];
+}
+
+export interface FrameCaptureOptions {
+  fps: number;
+  scale: number;
+  padding: number;
+  // Crop frames to the union of the skeleton bounds over the whole animation,
+  // otherwise use the fixed width/height with the animation centered
+  trim: boolean;
+  width: number;
+  height: number;
+  backgroundColor: string | null; // null = transparent
+}
+
+export interface CaptureResult {
+  width: number;
+  height: number;
+  frameCount: number;
+}
+
+type FrameCallback = (canvas: HTMLCanvasElement, index: number, total: number) => void | Promise<void>;
+type ProgressCallback = (done: number, total: number) => void;
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Failed to encode PNG'));
+        return;
+      }
+      blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
+};
+
+// Browser canvas limits (per side in Chrome/Firefox, total area in Firefox): larger canvases fail to get a
+// 2D context, so sprite sheets are split to stay within them
+const MAX_SHEET_SIDE = 16384;
+const MAX_SHEET_AREA = 11180 * 11180;
+
+// Frame entry of the TexturePacker "hash" layout
+interface SpriteSheetFrame {
+  frame: { x: number; y: number; w: number; h: number };
+  rotated: boolean;
+  trimmed: boolean;
+  spriteSourceSize: { x: number; y: number; w: number; h: number };
+  sourceSize: { w: number; h: number };
+  duration: number; // Milliseconds
+}
+
+// One sheet canvas of a sprite sheet export and the frames packed into it
+interface SpriteSheetPage {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  frames: Record<string, SpriteSheetFrame>;
+  frameNames: string[];
+}
+
+// Gives the browser a chance to repaint progress between frames
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+export class ExportService {
+  /**
+   * Renders every frame of the source animation into an offscreen render texture.
+   * A dedicated Spine instance is stepped with a fixed delta of 1/fps, so the output does not depend on
+   * the live playback state. Frames are handed to `onFrame` one at a time to keep memory bounded.
+   */
+  static async captureFrames(
+    renderer: PIXI.Renderer,
+    source: CaptureSource,
+    options: FrameCaptureOptions,
+    onFrame: FrameCallback
+  ): Promise<CaptureResult> {
+    const animation = source.skeletonData.findAnimation(source.animation);
+    if (!animation) {
+      throw new Error(`找不到动作: ${source.animation}`);
+    }
+
+    const frameCount = Math.max(1, Math.ceil(animation.duration * options.fps));
+    const spine = new Spine(source.skeletonData);
+    spine.autoUpdate = false;
+
+    const container = new PIXI.Container();
+    const renderTexture = PIXI.RenderTexture.create({ width: 1, height: 1, resolution: 1 });
+
+    try {
+      // 1. Measure the animation bounds over all frames
+      const bounds = this.measureBounds(spine, source, frameCount, options.fps);
+
+      // 2. Work out frame size and placement
+      const scale = options.scale;
+      let width: number;
+      let height: number;
+      if (options.trim) {
+        width = Math.max(1, Math.ceil(bounds.width * scale) + options.padding * 2);
+        height = Math.max(1, Math.ceil(bounds.height * scale) + options.padding * 2);
+        spine.position.set(options.padding - bounds.x * scale, options.padding - bounds.y * scale);
+      } else {
+        width = Math.max(1, Math.round(options.width));
+        height = Math.max(1, Math.round(options.height));
+        const centerX = bounds.x + bounds.width / 2;
+        const centerY = bounds.y + bounds.height / 2;
+        spine.position.set(width / 2 - centerX * scale, height / 2 - centerY * scale);
+      }
+      spine.scale.set(scale);
+      renderTexture.resize(width, height);
+
+      if (options.backgroundColor) {
+        const background = new PIXI.Graphics();
+        background.beginFill(new PIXI.Color(options.backgroundColor).toNumber());
+        background.drawRect(0, 0, width, height);
+        background.endFill();
+        container.addChild(background);
+      }
+      container.addChild(spine as any);
+
+      // 3. Step and render each frame
+      this.resetAnimation(spine, source);
+      for (let i = 0; i < frameCount; i++) {
+        if (i > 0) spine.update(1 / options.fps);
+        renderer.render(container, { renderTexture, clear: true });
+        const canvas = renderer.extract.canvas(renderTexture) as HTMLCanvasElement;
+        await onFrame(canvas, i, frameCount);
+        await nextTick();
+      }
+
+      return { width, height, frameCount };
+    } finally {
+      container.destroy({ children: true });
+      renderTexture.destroy(true);
+    }
+  }
+
+  /** Exports the animation as a zip of numbered PNG files. */
+  static async exportPngSequence(
+    renderer: PIXI.Renderer,
+    source: CaptureSource,
+    options: FrameCaptureOptions,
+    onProgress?: ProgressCallback
+  ): Promise<Blob> {
+    const entries: ZipEntry[] = [];
+    const prefix = this.getFilePrefix(source);
+
+    await this.captureFrames(renderer, source, options, async (canvas, index, total) => {
+      entries.push({ name: `${prefix}_${String(index).padStart(4, '0')}.png`, data: await canvasToPng(canvas) });
+      onProgress?.(index + 1, total);
+    });
+
+    return createZip(entries);
+  }
+
+  /**
+   * Exports the animation as sprite sheets packed in a grid, each with a JSON frame map (TexturePacker
+   * "hash" layout, readable by PIXI.Spritesheet), all returned in one zip. Frames that do not fit in one
+   * canvas within the browser limits are split across numbered sheets linked through `related_multi_packs`.
+   */
+  static async exportSpriteSheet(
+    renderer: PIXI.Renderer,
+    source: CaptureSource,
+    options: FrameCaptureOptions,
+    onProgress?: ProgressCallback
+  ): Promise<Blob> {
+    const prefix = this.getFilePrefix(source);
+    const pages: SpriteSheetPage[] = [];
+    let columns = 1;
+    let framesPerPage = 1;
+
+    const result = await this.captureFrames(renderer, source, options, (canvas, index, total) => {
+      const w = canvas.width;
+      const h = canvas.height;
+      if (pages.length === 0) {
+        if (w > MAX_SHEET_SIDE || h > MAX_SHEET_SIDE || w * h > MAX_SHEET_AREA) {
+          throw new Error(`单帧尺寸 ${w}x${h} 超出浏览器画布上限，请降低缩放或输出尺寸`);
+        }
+        columns = Math.min(Math.ceil(Math.sqrt(total)), Math.floor(MAX_SHEET_SIDE / w), Math.floor(MAX_SHEET_AREA / (w * h)));
+        const rows = Math.min(Math.ceil(total / columns), Math.floor(MAX_SHEET_SIDE / h), Math.floor(MAX_SHEET_AREA / (columns * w * h)));
+        framesPerPage = columns * rows;
+      }
+
+      const slot = index % framesPerPage;
+      if (slot === 0) {
+        const count = Math.min(framesPerPage, total - index);
+        const sheet = document.createElement('canvas');
+        sheet.width = Math.min(count, columns) * w;
+        sheet.height = Math.ceil(count / columns) * h;
+        const ctx = sheet.getContext('2d');
+        if (!ctx) {
+          throw new Error(`无法创建 ${sheet.width}x${sheet.height} 的精灵图画布 (可能超出浏览器内存上限)，请降低缩放、尺寸或帧率`);
+        }
+        pages.push({ canvas: sheet, ctx, frames: {}, frameNames: [] });
+      }
+      const page = pages[pages.length - 1];
+
+      const x = (slot % columns) * w;
+      const y = Math.floor(slot / columns) * h;
+      page.ctx.drawImage(canvas, x, y);
+
+      const frameName = `${prefix}_${String(index).padStart(4, '0')}`;
+      page.frameNames.push(frameName);
+      page.frames[frameName] = {
+        frame: { x, y, w, h },
+        rotated: false,
+        trimmed: false,
+        spriteSourceSize: { x: 0, y: 0, w, h },
+        sourceSize: { w, h },
+        duration: Math.round(1000 / options.fps),
+      };
+      onProgress?.(index + 1, total);
+    });
+
+    if (pages.length === 0) {
+      throw new Error('没有可导出的帧');
+    }
+
+    // A single sheet keeps the plain file names
+    const pageName = (i: number) => (pages.length === 1 ? prefix : `${prefix}_${i}`);
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < pages.length; i++) {
+      const page = pages[i];
+      const imageName = `${pageName(i)}.png`;
+      const frameMap = {
+        frames: page.frames,
+        animations: { [source.animation]: page.frameNames },
+        meta: {
+          app: 'Spine 3.8 Previewer',
+          image: imageName,
+          format: 'RGBA8888',
+          size: { w: page.canvas.width, h: page.canvas.height },
+          scale: '1',
+          frameSize: { w: result.width, h: result.height },
+          frameCount: result.frameCount,
+          fps: options.fps,
+          ...(pages.length > 1 && {
+            related_multi_packs: pages.map((_, j) => `${pageName(j)}.json`).filter((_, j) => j !== i),
+          }),
+        },
+      };
+      entries.push({ name: imageName, data: await canvasToPng(page.canvas) });
+      entries.push({ name: `${pageName(i)}.json`, data: new TextEncoder().encode(JSON.stringify(frameMap, null, 2)) });
+    }
+    return createZip(entries);
+  }
+
+  /**
+   * Exports the animation as a looping GIF. Colours are quantised to a shared palette of `maxColors`
+   * entries; pixels below half opacity become fully transparent since GIF has no partial alpha.
+   */
+  static async exportGif(
+    renderer: PIXI.Renderer,
+    source: CaptureSource,
+    options: FrameCaptureOptions,
+    maxColors: number,
+    onProgress?: ProgressCallback
+  ): Promise<Blob> {
+    const frames = await this.captureImageData(renderer, source, options, onProgress);
+    return encodeGif(frames, { fps: options.fps, maxColors });
+  }
+
+  /** Exports the animation as a looping APNG with full 8-bit alpha. */
+  static async exportApng(
+    renderer: PIXI.Renderer,
+    source: CaptureSource,
+    options: FrameCaptureOptions,
+    onProgress?: ProgressCallback
+  ): Promise<Blob> {
+    const frames = await this.captureImageData(renderer, source, options, onProgress);
+    return encodeApng(frames, { fps: options.fps });
+  }
+
+  // Base name for exported files, stripped of characters that are unsafe in file names
+  static getFilePrefix(source: CaptureSource): string {
+    return `${source.name}_${source.animation}`.replace(/[\\/:*?"<>|\s]+/g, '_');
+  }
+
+  // Collects raw pixels for every frame; animated encoders need the whole sequence up front
+  private static async captureImageData(
+    renderer: PIXI.Renderer,
+    source: CaptureSource,
+    options: FrameCaptureOptions,
+    onProgress?: ProgressCallback
+  ): Promise<ImageData[]> {
+    const frames: ImageData[] = [];
+    await this.captureFrames(renderer, source, options, (canvas, index, total) => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Failed to read frame pixels');
+      frames.push(ctx.getImageData(0, 0, canvas.width, canvas.height));
+      onProgress?.(index + 1, total);
+    });
+    return frames;
+  }
+
+  // Puts the capture instance at time 0 with the live view's skins and tracks
+  private static resetAnimation(spine: Spine, source: CaptureSource) {
+    spine.state.clearTracks();
+    spine.skeleton.setToSetupPose();
+    applySkins(spine.skeleton, source.skins);
+    spine.state.setAnimation(0, source.animation, true);
+    applyTrackLayers(spine.state, source.tracks);
+    spine.update(0);
+  }
+
+  // Union of the rendered bounds over every frame of the animation (in unscaled skeleton space)
+  private static measureBounds(spine: Spine, source: CaptureSource, frameCount: number, fps: number): PIXI.Rectangle {
+    this.resetAnimation(spine, source);
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+    for (let i = 0; i < frameCount; i++) {
+      if (i > 0) spine.update(1 / fps);
+      const b = spine.getLocalBounds();
+      if (b.width <= 0 || b.height <= 0) continue;
+      minX = Math.min(minX, b.x);
+      minY = Math.min(minY, b.y);
+      maxX = Math.max(maxX, b.x + b.width);
+      maxY = Math.max(maxY, b.y + b.height);
+    }
+
+    if (!isFinite(minX)) return new PIXI.Rectangle(0, 0, 1, 1);
+    return new PIXI.Rectangle(minX, minY, maxX - minX, maxY - minY);
+  }
+}
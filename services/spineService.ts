@@ -1,23 +1,173 @@
 import * as PIXI from 'pixi.js';
-import { TextureAtlas } from '@pixi-spine/base';
-import { Spine, SkeletonBinary, AtlasAttachmentLoader } from '@pixi-spine/runtime-3.8';
-import { UploadedFile, SpineModel } from '../types';
+import { TextureAtlas, TextureAtlasRegion } from '@pixi-spine/base';
+import { Spine, SkeletonBinary, SkeletonJson, SkeletonData, AtlasAttachmentLoader, Skin, RegionAttachment, MeshAttachment } from '@pixi-spine/runtime-3.8';
+import { UploadedFile, SpineModel, SkeletonFormat, SkeletonInfo, FileDiagnostic, SpineLoadResult, TextureInfo, AtlasRegionInfo, MissingRegion, LoadWarning, LoadOptions } from '../types';
 import { readFileAsArrayBuffer, readFileAsText } from '../utils/fileHelpers';
+import { buildRegionReport } from '../utils/atlasReport';
+import { resolveRelativePath, PathResolution } from '../utils/pathResolver';
+import { getCheckerTexture, createSolidTexture } from '../utils/placeholderTextures';
+import { readBinaryHeader, readJsonHeader, isSupportedVersion, SUPPORTED_VERSION } from '../utils/skeletonHeader';
+import { detectPremultipliedAlpha } from '../utils/premultipliedAlpha';
+
+// Bytes read from the start of a .skel file to detect its version (hash + version strings fit easily)
+const HEADER_BYTES = 1024;
+
+// Fill colour for atlas pages whose image is missing in lenient mode
+const MISSING_PAGE_COLOR = '#ff00ff';
+// Placeholder page size when the atlas does not declare one
+const DEFAULT_PAGE_SIZE = 2048;
+
+const DEFAULT_LOAD_OPTIONS: LoadOptions = { lenient: false };
+
+// Reads the declared "size: w,h" of each page from the atlas text. A page header starts after a
+// blank line and ends at the first region name (a line without ':'); size is optional in the header,
+// so size lines after that belong to regions.
+const readAtlasPageSizes = (atlasText: string): Map<string, { width: number; height: number }> => {
+  const sizes = new Map<string, { width: number; height: number }>();
+  let page: string | null = null;
+  let expectPage = true;
+  for (const raw of atlasText.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) {
+      expectPage = true;
+      continue;
+    }
+    if (expectPage) {
+      page = line;
+      expectPage = false;
+      continue;
+    }
+    if (!page) continue;
+    if (!line.includes(':')) {
+      page = null;
+      continue;
+    }
+    const match = /^size:\s*(\d+)\s*,\s*(\d+)/.exec(line);
+    if (match) {
+      sizes.set(page, { width: parseInt(match[1], 10), height: parseInt(match[2], 10) });
+      page = null;
+    }
+  }
+  return sizes;
+};
+
+// Plain copy of a parsed atlas region for the UI, using the .atlas file's conventions
+const toRegionInfo = (region: TextureAtlasRegion): AtlasRegionInfo => {
+  const frame = region.texture.frame;
+  return {
+    name: region.name,
+    index: region.index,
+    x: region.x,
+    y: region.y,
+    width: region.width,
+    height: region.height,
+    originalWidth: region.originalWidth,
+    originalHeight: region.originalHeight,
+    offsetX: region.offsetX,
+    offsetY: region.spineOffsetY,
+    rotate: region.rotate,
+    degrees: region.degrees,
+    frame: { x: frame.x, y: frame.y, width: frame.width, height: frame.height },
+  };
+};
+
+// Attachment loader that records attachments whose region is missing from the atlas instead of
+// aborting on the first one. Missing attachments get a checkerboard placeholder region, so linked meshes
+// still find their parent; in strict mode the load then fails listing every missing region.
+class TrackingAttachmentLoader extends AtlasAttachmentLoader {
+  missing: MissingRegion[] = [];
+  warnings: LoadWarning[] = [];
+
+  constructor(atlas: TextureAtlas) {
+    super(atlas);
+  }
+
+  newRegionAttachment(skin: Skin, name: string, path: string): RegionAttachment {
+    if (!this.atlas.findRegion(path)) {
+      this.recordMissing(skin, name, path, 'region');
+      const attachment = new RegionAttachment(name);
+      attachment.region = this.createPlaceholderRegion(path);
+      return attachment;
+    }
+    return super.newRegionAttachment(skin, name, path);
+  }
+
+  newMeshAttachment(skin: Skin, name: string, path: string): MeshAttachment {
+    if (!this.atlas.findRegion(path)) {
+      this.recordMissing(skin, name, path, 'mesh');
+      const attachment = new MeshAttachment(name);
+      attachment.region = this.createPlaceholderRegion(path);
+      return attachment;
+    }
+    return super.newMeshAttachment(skin, name, path);
+  }
+
+  private recordMissing(skin: Skin, name: string, path: string, type: MissingRegion['type']) {
+    this.missing.push({ skin: skin.name, attachment: name, path, type });
+    this.warnings.push({
+      kind: 'region',
+      name: path,
+      message: `区域缺失，附件 ${name} (皮肤 ${skin.name}) 使用棋盘格占位`,
+    });
+  }
+
+  private createPlaceholderRegion(path: string): TextureAtlasRegion {
+    const region = new TextureAtlasRegion();
+    region.name = path;
+    region.index = -1;
+    region.texture = getCheckerTexture();
+    return region;
+  }
+}
+
+// A skeleton file found in the upload, together with its detected format.
+// JSON skeletons are parsed once during detection and the result is kept for loading.
+interface SkeletonSource {
+  file: UploadedFile;
+  format: SkeletonFormat;
+  baseName: string;
+  name?: string;
+  json?: any;
+  info?: SkeletonInfo;
+}
+
+// Models are looked up by name, so skeletons sharing a base name (e.g. the same export as both .skel and .json)
+// are named by file name instead, or by path when the file names collide too
+const assignModelNames = (sources: SkeletonSource[]) => {
+  const isUnique = (key: (source: SkeletonSource) => string, value: string) => sources.filter((s) => key(s) === value).length === 1;
+  for (const source of sources) {
+    if (isUnique((s) => s.baseName, source.baseName)) source.name = source.baseName;
+    else if (isUnique((s) => s.file.name, source.file.name)) source.name = source.file.name;
+    else source.name = source.file.path;
+  }
+};
 
 export class SpineLoaderService {
   /**
    * Attempts to assemble Spine models from a collection of raw files.
-   * Looks for all .skel files and pairs them with matching .atlas files.
-   * Returns an array of successfully loaded models.
+   * Looks for all .skel files and Spine skeleton .json files and pairs them with matching .atlas files.
+   * Returns the successfully loaded models plus a diagnostic for every skeleton that could not be loaded.
+   * Throws only when no model could be loaded at all.
    */
-  static async loadSpineFromFiles(files: UploadedFile[]): Promise<SpineModel[]> {
-    // 1. Identify all skel files
-    const skelFiles = files.filter((f) => f.extension === 'skel');
-    if (skelFiles.length === 0) {
-      throw new Error('未找到 .skel 二进制文件。请确保上传了 Spine 3.8 格式的导出文件。');
+  static async loadSpineFromFiles(files: UploadedFile[], options: LoadOptions = DEFAULT_LOAD_OPTIONS): Promise<SpineLoadResult> {
+    // 1. Identify all skeleton files (binary .skel and skeleton .json)
+    const skeletonSources: SkeletonSource[] = files
+      .filter((f) => f.extension === 'skel')
+      .map((f) => ({ file: f, format: 'binary' as const, baseName: f.name.replace(/\.skel$/i, '') }));
+
+    for (const jsonFile of files.filter((f) => f.extension === 'json')) {
+      const json = await this.readSkeletonJson(jsonFile);
+      if (json) {
+        skeletonSources.push({ file: jsonFile, format: 'json', baseName: jsonFile.name.replace(/\.json$/i, ''), json });
+      }
+    }
+
+    if (skeletonSources.length === 0) {
+      throw new Error('未找到 Spine 骨架文件 (.skel 或 .json)。请确保上传了 Spine 3.8 格式的导出文件。');
     }
+    assignModelNames(skeletonSources);
 
-    // 2. Pre-load all image files once
+    // 2. Pre-load all image files once, keyed by relative path
     // This creates a pool of textures that any atlas can reference.
     const imageFiles = files.filter(f => ['png', 'jpg', 'jpeg'].includes(f.extension));
     const loadedImages = new Map<string, { img: HTMLImageElement, size: number, url: string }>();
@@ -25,11 +175,11 @@ export class SpineLoaderService {
     await Promise.all(imageFiles.map(imgFile => new Promise<void>((resolve, reject) => {
         const img = new Image();
         img.onload = () => {
-            loadedImages.set(imgFile.name, { img, size: imgFile.file.size, url: imgFile.url });
+            loadedImages.set(imgFile.path, { img, size: imgFile.file.size, url: imgFile.url });
             resolve();
         };
         img.onerror = () => {
-             console.warn(`Failed to load image: ${imgFile.name}`);
+             console.warn(`Failed to load image: ${imgFile.path}`);
              // Don't reject entire batch just for one bad image, but log it.
              resolve(); 
         };
@@ -37,89 +187,171 @@ export class SpineLoaderService {
     })));
 
     const loadedModels: SpineModel[] = [];
-    const errors: string[] = [];
+    const diagnostics: FileDiagnostic[] = [];
 
     // 3. Process each skeleton file
-    for (const skelFile of skelFiles) {
-      const baseName = skelFile.name.replace(/\.skel$/, '');
-      // Try to find matching atlas: "name.atlas"
-      const atlasFile = files.find(f => f.extension === 'atlas' && f.name.replace(/\.atlas$/, '') === baseName);
+    for (const source of skeletonSources) {
+      const baseName = source.baseName;
+
+      // Check the version before parsing; other versions fail deep inside the reader with cryptic errors
+      source.info = await this.readSkeletonInfo(source);
+      if (!isSupportedVersion(source.info.version)) {
+        diagnostics.push({
+          file: source.file.name,
+          message: `检测到 Spine ${source.info.version} 导出，本预览器仅支持 ${SUPPORTED_VERSION}.x。请在 Spine 编辑器中以 ${SUPPORTED_VERSION} 版本重新导出。`,
+        });
+        continue;
+      }
+
+      // Try to find matching atlas: "name.atlas", preferring the one next to the skeleton
+      const atlasFiles = files.filter(f => f.extension === 'atlas' && f.name.replace(/\.atlas$/, '') === baseName);
+      const atlasPath = resolveRelativePath(`${baseName}.atlas`, source.file.path, atlasFiles.map(f => f.path)).path;
+      const atlasFile = atlasFiles.find(f => f.path === atlasPath);
 
       if (!atlasFile) {
-        errors.push(`找不到与 ${skelFile.name} 匹配的 .atlas 文件`);
+        diagnostics.push({ file: source.file.name, message: '找不到匹配的 .atlas 文件' });
         continue;
       }
 
       try {
-        const model = await this.loadSingleSpine(skelFile, atlasFile, loadedImages);
+        const model = await this.loadSingleSpine(source, atlasFile, loadedImages, options);
         loadedModels.push(model);
       } catch (err: any) {
-        errors.push(`加载模型 ${baseName} 失败: ${err.message}`);
+        const versionHint = source.info.version ? '' : ' (未能识别版本号，文件可能已损坏或不是 Spine 导出)';
+        diagnostics.push({ file: source.file.name, message: `加载失败: ${err.message}${versionHint}` });
       }
     }
 
     if (loadedModels.length === 0) {
-      throw new Error(errors.join('\n') || '无法加载任何模型。');
+      throw new Error(this.formatDiagnostics(diagnostics) || '无法加载任何模型。');
+    }
+
+    return { models: loadedModels, diagnostics };
+  }
+
+  /**
+   * Rebuilds a single model from the upload it came from, e.g. after one of its page images was picked by hand.
+   * Other skeleton files are left out, so the rest of the loaded models are untouched; the model keeps the name it
+   * was given next to them. Throws with the loader's diagnostic when the model cannot be loaded.
+   */
+  static async reloadModel(files: UploadedFile[], model: SpineModel, options: LoadOptions): Promise<SpineModel> {
+    const isOtherSkeleton = (f: UploadedFile) => (f.extension === 'skel' || f.extension === 'json') && f.path !== model.skeletonPath;
+    const { models } = await this.loadSpineFromFiles(files.filter((f) => !isOtherSkeleton(f)), options);
+    return { ...models[0], name: model.name };
+  }
+
+  // Releases a model that is no longer shown: its Spine instance and its page textures, which no other model uses
+  static disposeModel(model: SpineModel) {
+    model.spine.destroy({ children: true });
+    for (const page of model.atlas.pages) {
+      page.baseTexture.destroy();
+    }
+  }
+
+  // Key of a manually chosen page image in LoadOptions.textureOverrides
+  static getTextureOverrideKey(atlasPath: string, pageName: string): string {
+    return `${atlasPath}::${pageName}`;
+  }
+
+  // One line per file, for error messages
+  static formatDiagnostics(diagnostics: FileDiagnostic[]): string {
+    return diagnostics.map((d) => `${d.file}: ${d.message}`).join('\n');
+  }
+
+  // Reads version/hash from the skeleton header without parsing the whole file
+  private static async readSkeletonInfo(source: SkeletonSource): Promise<SkeletonInfo> {
+    if (source.format === 'json') {
+      return readJsonHeader(source.json);
+    }
+    const buffer = await source.file.file.slice(0, HEADER_BYTES).arrayBuffer();
+    return readBinaryHeader(new Uint8Array(buffer));
+  }
+
+  /**
+   * Reads a .json file and returns the parsed object if it looks like a Spine skeleton export.
+   * Unrelated JSON files (configs, texture packer data, etc.) resolve to null and are ignored.
+   */
+  private static async readSkeletonJson(file: UploadedFile): Promise<any | null> {
+    try {
+      const json = JSON.parse(await readFileAsText(file.file));
+      const isSkeleton = json !== null
+        && typeof json === 'object'
+        && typeof json.skeleton === 'object'
+        && Array.isArray(json.bones);
+      return isSkeleton ? json : null;
+    } catch {
+      return null;
     }
+  }
 
-    return loadedModels;
+  // Parses skeleton data with the reader that matches the source format
+  private static async readSkeletonData(source: SkeletonSource, atlasLoader: AtlasAttachmentLoader): Promise<SkeletonData> {
+    if (source.format === 'json') {
+      return new SkeletonJson(atlasLoader).readSkeletonData(source.json);
+    }
+    const buffer = await readFileAsArrayBuffer(source.file.file);
+    return new SkeletonBinary(atlasLoader).readSkeletonData(new Uint8Array(buffer));
   }
 
   private static async loadSingleSpine(
-    skelFile: UploadedFile, 
+    source: SkeletonSource, 
     atlasFile: UploadedFile, 
-    loadedImages: Map<string, { img: HTMLImageElement, size: number, url: string }>
+    loadedImages: Map<string, { img: HTMLImageElement, size: number, url: string }>,
+    options: LoadOptions
   ): Promise<SpineModel> {
     
     // Read Atlas content
     const atlasText = await readFileAsText(atlasFile.file);
+    const warnings: LoadWarning[] = [];
+    const imagePaths = Array.from(loadedImages.keys());
+    const pageImages = new Map<string, PathResolution>();
 
     // Create Texture Atlas
     return new Promise((resolve, reject) => {
       new TextureAtlas(atlasText, (path: string, loaderFunction: (t: any) => void) => {
-        // Find the matching pre-loaded image
-        let foundData: { img: HTMLImageElement, size: number, url: string } | undefined;
-
-        for (const [name, data] of loadedImages.entries()) {
-             // 1. Exact match
-             if (name === path) {
-                 foundData = data;
-                 break;
-             }
-             // 2. Path ending match (common for folders where path is "images/abc.png" but file is "abc.png")
-             if (name.endsWith(path) || path.endsWith(name)) {
-                 foundData = data;
-                 break;
-             }
+        // Find the matching pre-loaded image relative to the atlas location, unless picked by hand
+        let resolution = resolveRelativePath(path, atlasFile.path, imagePaths);
+        const override = options.textureOverrides?.[this.getTextureOverrideKey(atlasFile.path, path)];
+        if (override && loadedImages.has(override)) {
+          resolution = { ...resolution, path: override, ambiguous: false };
+        } else if (resolution.ambiguous) {
+          warnings.push({
+            kind: 'page',
+            name: path,
+            message: `匹配到 ${resolution.candidates.length} 个图片，已选择 ${resolution.path}。候选: ${resolution.candidates.join(', ')}。可在纹理详情中手动选择。`,
+          });
         }
+        pageImages.set(path, resolution);
+        const foundData = resolution.path ? loadedImages.get(resolution.path) : undefined;
 
         if (!foundData) {
-          // Fallback fuzzy search (contains)
-          for (const [name, data] of loadedImages.entries()) {
-              if (name.includes(path)) {
-                  foundData = data;
-                  break;
-              }
+          if (!options.lenient) {
+            reject(new Error(`无法找到纹理图片: ${path} (可开启宽松模式继续加载)`));
+            return;
           }
-        }
-
-        if (!foundData) {
-          reject(new Error(`无法找到纹理图片: ${path}`));
+          // Lenient: magenta stand-in at the declared page size so region frames stay in bounds
+          const size = readAtlasPageSizes(atlasText).get(path) || { width: DEFAULT_PAGE_SIZE, height: DEFAULT_PAGE_SIZE };
+          warnings.push({ kind: 'page', name: path, message: `找不到页面图片，使用洋红色纹理代替 (${size.width}x${size.height})` });
+          loaderFunction(createSolidTexture(size.width, size.height, MISSING_PAGE_COLOR).baseTexture);
           return;
         }
 
-        // Create Texture from pre-loaded image
-        const texture = PIXI.Texture.from(foundData.img);
-        loaderFunction(texture);
+        // The atlas expects a base texture so "pma: true" can be applied to it. Each model gets its own rather than
+        // PIXI's cached one for the image, so changing one model's alpha mode never affects another
+        loaderFunction(new PIXI.BaseTexture(foundData.img));
 
       }, (atlas: TextureAtlas) => {
         // Atlas loaded, now load Skeleton
         try {
-          const atlasLoader = new AtlasAttachmentLoader(atlas);
-          const skeletonBinary = new SkeletonBinary(atlasLoader);
+          const atlasLoader = new TrackingAttachmentLoader(atlas);
+
+          this.readSkeletonData(source, atlasLoader).then((skeletonData) => {
+            // Strict mode reads the whole skeleton first so the error names every missing region
+            if (!options.lenient && atlasLoader.missing.length > 0) {
+              const paths = Array.from(new Set(atlasLoader.missing.map((m) => m.path)));
+              throw new Error(`图集中缺少 ${paths.length} 个区域: ${paths.join(', ')} (可开启宽松模式继续加载)`);
+            }
 
-          readFileAsArrayBuffer(skelFile.file).then((buffer) => {
-            const skeletonData = skeletonBinary.readSkeletonData(new Uint8Array(buffer));
             const spine = new Spine(skeletonData);
 
             // Extract metadata
@@ -128,18 +360,21 @@ export class SpineLoaderService {
             
             // Extract Texture Info for UI
             // We iterate atlas pages to be sure we list what the spine actually uses
-            const textureInfo: { name: string; width: number; height: number; size: number; url: string }[] = [];
+            const textureInfo: TextureInfo[] = [];
             
             for (const page of atlas.pages) {
-                // Find matching image in loadedImages based on page name
-                let foundData: { img: HTMLImageElement, size: number, url: string } | undefined;
-                
-                for (const [name, data] of loadedImages.entries()) {
-                     if (name === page.name || name.endsWith(page.name) || page.name.endsWith(name)) {
-                         foundData = data;
-                         break;
-                     }
-                }
+                // Image bound to this page while loading the atlas
+                const resolution = pageImages.get(page.name);
+                const imagePath = resolution?.path || '';
+                const candidates = resolution?.candidates || [];
+                const foundData = imagePath ? loadedImages.get(imagePath) : undefined;
+
+                const regions = atlas.regions.filter(r => r.page === page).map(toRegionInfo);
+                // The parser only sets pma when the page has a "pma:" line
+                const alpha = {
+                    declared: typeof page.pma === 'boolean' ? page.pma : null,
+                    detected: foundData ? detectPremultipliedAlpha(foundData.img) : null
+                };
 
                 if (foundData) {
                     textureInfo.push({
@@ -147,7 +382,11 @@ export class SpineLoaderService {
                         width: foundData.img.width,
                         height: foundData.img.height,
                         size: foundData.size,
-                        url: foundData.url
+                        url: foundData.url,
+                        regions,
+                        imagePath,
+                        candidates,
+                        alpha
                     });
                 } else {
                     textureInfo.push({
@@ -155,17 +394,28 @@ export class SpineLoaderService {
                         width: page.width,
                         height: page.height,
                         size: 0,
-                        url: ''
+                        url: '',
+                        regions,
+                        imagePath: '',
+                        candidates,
+                        alpha
                     });
                 }
             }
 
             resolve({
-              name: skelFile.name.replace('.skel', ''),
+              name: source.name || source.baseName,
+              format: source.format,
+              skeletonPath: source.file.path,
+              atlasPath: atlasFile.path,
+              info: source.info || { version: skeletonData.version, hash: skeletonData.hash, nonessential: null },
               spine,
+              atlas,
               animations,
               skins,
-              textureInfo
+              textureInfo,
+              regionReport: buildRegionReport(skeletonData, atlas, atlasLoader.missing),
+              loadWarnings: [...warnings, ...atlasLoader.warnings]
             });
           }).catch(reject);
 
@@ -1,21 +1,114 @@
 import { Spine } from '@pixi-spine/runtime-3.8';
+import { TextureAtlas } from '@pixi-spine/base';
+
+// Source format of a skeleton export: binary .skel or .json
+export type SkeletonFormat = 'binary' | 'json';
+
+// Header fields read from a skeleton export before it is parsed (null when not present or unreadable)
+export interface SkeletonInfo {
+  version: string | null;
+  hash: string | null;
+  nonessential: boolean | null;
+}
+
+// A substitution or omission made while loading a model
+export interface LoadWarning {
+  kind: 'page' | 'region';
+  name: string; // Page image or region path
+  message: string;
+}
+
+export interface LoadOptions {
+  // Substitute placeholders for missing page images and regions instead of failing or skipping
+  lenient: boolean;
+  // Manually chosen page images, keyed by SpineLoaderService.getTextureOverrideKey
+  textureOverrides?: Record<string, string>;
+}
 
 export interface SpineModel {
   name: string;
+  format: SkeletonFormat;
+  skeletonPath: string;
+  atlasPath: string;
+  info: SkeletonInfo;
   spine: Spine;
+  atlas: TextureAtlas;
   animations: string[];
   skins: string[];
-  textureInfo: {
-    name: string;
-    width: number;
-    height: number;
-    size: number; // File size in bytes
-    url: string; // Blob URL for preview
-  }[];
+  textureInfo: TextureInfo[];
+  regionReport: RegionReport;
+  loadWarnings: LoadWarning[];
+}
+
+// A packed region on an atlas page, with values as written in the .atlas file
+export interface AtlasRegionInfo {
+  name: string;
+  index: number; // -1 when the region is not part of a numbered sequence
+  x: number;
+  y: number;
+  width: number; // Packed size (before rotation)
+  height: number;
+  originalWidth: number; // Size before whitespace stripping
+  originalHeight: number;
+  offsetX: number; // Offset of the packed image within the original, from the bottom-left
+  offsetY: number;
+  rotate: boolean;
+  degrees: number;
+  // Rectangle occupied on the page image (width/height swapped for rotated regions)
+  frame: { x: number; y: number; width: number; height: number };
+}
+
+// Atlas region that no attachment in any skin references
+export interface UnusedRegion {
+  name: string;
+  index: number;
+  page: string;
+  width: number; // Size occupied on the page
+  height: number;
+  area: number; // Pixels
+  bytes: number; // Estimated GPU memory as uncompressed RGBA8888
+}
+
+// Attachment whose region (path) is not in the atlas; skipped when loading, or a placeholder in lenient mode
+export interface MissingRegion {
+  skin: string;
+  attachment: string;
+  path: string;
+  type: 'region' | 'mesh';
 }
 
+export interface RegionReport {
+  totalRegions: number;
+  unused: UnusedRegion[];
+  unusedArea: number;
+  unusedBytes: number;
+  missing: MissingRegion[];
+}
+
+export interface TextureInfo {
+  name: string;
+  width: number;
+  height: number;
+  size: number; // File size in bytes
+  url: string; // Blob URL for preview
+  regions: AtlasRegionInfo[];
+  imagePath: string; // Uploaded image bound to the page, '' when missing
+  candidates: string[]; // Uploaded images that matched the page name
+  alpha: PageAlphaInfo;
+}
+
+// Premultiplied alpha state of an atlas page (null when unknown)
+export interface PageAlphaInfo {
+  declared: boolean | null; // "pma:" line in the atlas; most 3.8 exports omit it
+  detected: boolean | null; // Guessed from the page image pixels
+}
+
+// Per-model choice of how page images are uploaded: follow the atlas/detection, or force a mode
+export type AlphaMode = 'auto' | 'pma' | 'straight';
+
 export interface UploadedFile {
   name: string;
+  path: string; // Relative path within the upload ('/' separated), equal to name for loose files
   url: string; // Blob URL
   file: File;
   extension: string;
@@ -26,8 +119,132 @@ export interface SpineLoadError {
   details?: string;
 }
 
+// A problem with one uploaded file, reported alongside the models that did load
+export interface FileDiagnostic {
+  file: string;
+  message: string;
+}
+
+export interface SpineLoadResult {
+  models: SpineModel[];
+  diagnostics: FileDiagnostic[];
+}
+
+// MixBlend of an overlay track. With 'replace' the track moves the pose from the lower tracks' result toward its own
+// values by alpha; with 'add' it adds its offset from the setup pose, scaled by alpha, on top of that result
+export type TrackMixBlend = 'replace' | 'add';
+
+// Configuration of one layered animation track (track index 1 and up)
+export interface TrackConfig {
+  animation: string; // Empty string leaves the track empty
+  loop: boolean;
+  alpha: number;
+  mixBlend: TrackMixBlend;
+}
+
+// Crossfade durations (seconds) used by AnimationStateData when switching animations
+export interface MixConfig {
+  defaultMix: number;
+  mixes: Record<string, Record<string, number>>; // from -> to -> duration
+}
+
 export type ScaleMode = 'fit' | 'fill' | '1x';
 
+// Which pose the framing modes measure: the setup pose or every frame of the current animation
+export type FramingBounds = 'setup' | 'animation';
+
+export interface SkeletonBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Render cost of one sampled frame
+export interface FrameMetrics {
+  vertices: number;
+  triangles: number;
+  clippedTriangles: number; // Triangles inside a clipping attachment's range, which the clipper has to process
+  visibleSlots: number;
+  attachmentSwitches: number; // Slots whose attachment differs from the previous frame
+  drawCalls: number; // Estimated batches, see estimateDrawCalls
+}
+
+export interface MetricSummary {
+  min: number;
+  avg: number;
+  peak: number;
+  peakFrame: number;
+}
+
+// Result of stepping one animation frame by frame
+export interface AnimationSweep {
+  animation: string;
+  fps: number;
+  frames: FrameMetrics[];
+  summary: Record<keyof FrameMetrics, MetricSummary>;
+}
+
+// Local transform forced on a bone by dragging it on the canvas; only the dragged fields are set, the rest stay animated
+export interface BonePose {
+  x?: number;
+  y?: number;
+  rotation?: number;
+}
+
+export type ConstraintKind = 'ik' | 'transform' | 'path';
+
+// Live override of one constraint from the constraint inspector; properties not in `values` follow the animation
+export interface ConstraintOverride {
+  disabled: boolean; // Mixes forced to 0 so the constraint contributes nothing
+  values: Record<string, number>; // Constraint property (mix, softness, bendDirection, rotateMix, position, ...) -> value
+}
+
+// Quantity a budget rule limits; texture metrics are checked on every atlas page
+export type BudgetMetric = 'bones' | 'slots' | 'constraints' | 'vertices' | 'triangles' | 'drawCalls' | 'textureDimension' | 'textureBytes';
+
+export type BudgetStatus = 'pass' | 'warn' | 'fail';
+
+// Values above `warn` or `fail` raise that status; null turns the level off
+export interface BudgetRule {
+  metric: BudgetMetric;
+  warn: number | null;
+  fail: number | null;
+}
+
+// Named rule set, saved locally and exchanged as JSON
+export interface BudgetProject {
+  name: string;
+  rules: BudgetRule[];
+}
+
+export interface BudgetStore {
+  activeProject: string;
+  projects: BudgetProject[];
+}
+
+// Measured value of one metric; texture metrics keep the worst page, render metrics the peak frame
+export interface BudgetCheck {
+  metric: BudgetMetric;
+  value: number;
+  status: BudgetStatus;
+  subject?: string; // Atlas page for texture metrics; 'setup' or '<animation> @<frame>' for render metrics
+}
+
+// Every rule checked against one loaded model
+export interface ModelBudgetReport {
+  model: string;
+  status: BudgetStatus; // Worst status of the checks
+  checks: BudgetCheck[];
+}
+
+// Overrides from the inspectors, written over the animated pose every frame
+export interface PoseOverrides {
+  attachments: Record<string, string | null>; // Slot name -> skin placeholder name, null for no attachment
+  bones: Record<string, BonePose>; // Bone name -> pose dragged on the canvas
+  constraints: Record<string, ConstraintOverride>; // Keyed by getConstraintKey
+}
+
 export interface SpineDebugConfig {
   bones: boolean;
   regions: boolean;
@@ -0,0 +1,84 @@
+// Animated PNG (APNG) encoder. Frames are stored losslessly as 8-bit RGBA, so semi-transparent
+// edges survive. Compression uses the browser's native zlib stream.
+import { crc32 } from './zip';
+
+export interface ApngEncodeOptions {
+  fps: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const zlibCompress = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Builds a chunk: length, type, data, CRC over type + data
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+};
+
+// Raw scanlines with filter type 0 (None) prepended to each row
+const toScanlines = (frame: ImageData): Uint8Array => {
+  const rowBytes = frame.width * 4;
+  const raw = new Uint8Array((rowBytes + 1) * frame.height);
+  for (let y = 0; y < frame.height; y++) {
+    raw.set(frame.data.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+  return raw;
+};
+
+export const encodeApng = async (frames: ImageData[], options: ApngEncodeOptions): Promise<Blob> => {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  const { width, height } = frames[0];
+  const parts: Uint8Array[] = [Uint8Array.from(PNG_SIGNATURE)];
+  let sequence = 0;
+
+  // IHDR: 8-bit RGBA, no interlace
+  const ihdr = new DataView(new ArrayBuffer(13));
+  ihdr.setUint32(0, width);
+  ihdr.setUint32(4, height);
+  ihdr.setUint8(8, 8);
+  ihdr.setUint8(9, 6);
+  parts.push(chunk('IHDR', new Uint8Array(ihdr.buffer)));
+
+  // acTL: frame count, loop forever
+  const actl = new DataView(new ArrayBuffer(8));
+  actl.setUint32(0, frames.length);
+  actl.setUint32(4, 0);
+  parts.push(chunk('acTL', new Uint8Array(actl.buffer)));
+
+  for (let f = 0; f < frames.length; f++) {
+    // fcTL: full-canvas frame shown for 1/fps seconds, cleared before the next one
+    const fctl = new DataView(new ArrayBuffer(26));
+    fctl.setUint32(0, sequence++);
+    fctl.setUint32(4, width);
+    fctl.setUint32(8, height);
+    fctl.setUint32(12, 0);
+    fctl.setUint32(16, 0);
+    fctl.setUint16(20, 1);
+    fctl.setUint16(22, Math.round(options.fps));
+    fctl.setUint8(24, 1); // APNG_DISPOSE_OP_BACKGROUND
+    fctl.setUint8(25, 0); // APNG_BLEND_OP_SOURCE
+    parts.push(chunk('fcTL', new Uint8Array(fctl.buffer)));
+
+    const compressed = await zlibCompress(toScanlines(frames[f]));
+    if (f === 0) {
+      parts.push(chunk('IDAT', compressed));
+    } else {
+      const fdat = new Uint8Array(4 + compressed.length);
+      new DataView(fdat.buffer).setUint32(0, sequence++);
+      fdat.set(compressed, 4);
+      parts.push(chunk('fdAT', fdat));
+    }
+  }
+
+  parts.push(chunk('IEND', new Uint8Array(0)));
+  return new Blob(parts, { type: 'image/apng' });
+};
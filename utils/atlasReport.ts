@@ -0,0 +1,58 @@
+import { TextureAtlas, TextureRegion } from '@pixi-spine/base';
+import { MeshAttachment, RegionAttachment, SkeletonData } from '@pixi-spine/runtime-3.8';
+import { MissingRegion, RegionReport, UnusedRegion } from '../types';
+
+// Bytes per pixel of an uncompressed RGBA8888 texture
+const BYTES_PER_PIXEL = 4;
+
+/**
+ * Cross-references the attachments of every skin against the atlas regions.
+ * A region counts as used when any region or mesh attachment in any skin points at it; the rest are
+ * reported with their packed area. `missing` comes from the attachment loader, since attachments
+ * without a region never make it into the skeleton data.
+ */
+export const buildRegionReport = (data: SkeletonData, atlas: TextureAtlas, missing: MissingRegion[]): RegionReport => {
+  const used = new Set<TextureRegion>();
+  for (const skin of data.skins) {
+    for (const entry of skin.getAttachments()) {
+      const attachment = entry.attachment;
+      if ((attachment instanceof RegionAttachment || attachment instanceof MeshAttachment) && attachment.region) {
+        used.add(attachment.region);
+      }
+    }
+  }
+
+  const unused: UnusedRegion[] = atlas.regions
+    .filter((region) => !used.has(region))
+    .map((region) => {
+      const frame = region.texture.frame;
+      const area = frame.width * frame.height;
+      return {
+        name: region.name,
+        index: region.index,
+        page: region.page.name,
+        width: frame.width,
+        height: frame.height,
+        area,
+        bytes: area * BYTES_PER_PIXEL,
+      };
+    })
+    .sort((a, b) => b.area - a.area);
+
+  return {
+    totalRegions: atlas.regions.length,
+    unused,
+    unusedArea: unused.reduce((sum, r) => sum + r.area, 0),
+    unusedBytes: unused.reduce((sum, r) => sum + r.bytes, 0),
+    missing,
+  };
+};
+
+// Missing regions grouped by the skin that references them
+export const groupMissingBySkin = (missing: MissingRegion[]): Record<string, MissingRegion[]> => {
+  const groups: Record<string, MissingRegion[]> = {};
+  for (const entry of missing) {
+    (groups[entry.skin] = groups[entry.skin] || []).push(entry);
+  }
+  return groups;
+};
@@ -0,0 +1,64 @@
+import { ClippingAttachment, MeshAttachment, RegionAttachment, Skeleton } from '@pixi-spine/runtime-3.8';
+
+export type BatchBreakReason = 'page' | 'blend' | 'clipStart' | 'clipEnd';
+
+// Point in the draw order where a new batch has to start
+export interface BatchBreak {
+  from: string; // Last slot drawn in the previous batch
+  to: string; // First slot of the new batch
+  reasons: BatchBreakReason[];
+}
+
+export interface DrawCallEstimate {
+  drawCalls: number;
+  breaks: BatchBreak[];
+}
+
+export const BATCH_BREAK_LABELS: Record<BatchBreakReason, string> = {
+  page: '换页 (page switch)',
+  blend: '混合模式切换 (blend change)',
+  clipStart: '剪裁开始 (clip start)',
+  clipEnd: '剪裁结束 (clip end)',
+};
+
+/**
+ * Estimates draw calls for the current pose the way Spine runtimes batch: consecutive visible attachments share a
+ * batch until the atlas page or blend mode changes, or a clipping range starts or ends.
+ */
+export const estimateDrawCalls = (skeleton: Skeleton): DrawCallEstimate => {
+  const breaks: BatchBreak[] = [];
+  let drawCalls = 0;
+  let previous: { slot: string; page: unknown; blendMode: number } | null = null;
+  let pending: BatchBreakReason[] = [];
+  let clipping: ClippingAttachment | null = null;
+
+  for (const slot of skeleton.drawOrder) {
+    const attachment = slot.attachment;
+    if (attachment instanceof ClippingAttachment) {
+      clipping = attachment;
+      pending.push('clipStart');
+    } else if (slot.color.a > 0 && (attachment instanceof RegionAttachment || attachment instanceof MeshAttachment)) {
+      // Pages are compared by base texture, which also covers placeholder regions without an atlas page
+      const page = attachment.region?.texture?.baseTexture ?? null;
+      const blendMode = slot.data.blendMode as unknown as number;
+      if (!previous) {
+        drawCalls = 1;
+      } else {
+        const reasons = [...pending];
+        if (page !== previous.page) reasons.push('page');
+        if (blendMode !== previous.blendMode) reasons.push('blend');
+        if (reasons.length > 0) {
+          drawCalls++;
+          breaks.push({ from: previous.slot, to: slot.data.name, reasons: Array.from(new Set(reasons)) });
+        }
+      }
+      previous = { slot: slot.data.name, page, blendMode };
+      pending = [];
+    }
+    if (clipping && clipping.endSlot === slot.data) {
+      clipping = null;
+      pending.push('clipEnd');
+    }
+  }
+  return { drawCalls, breaks };
+};
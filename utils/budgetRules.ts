@@ -0,0 +1,203 @@
+import { Skeleton } from '@pixi-spine/runtime-3.8';
+import { BudgetCheck, BudgetMetric, BudgetProject, BudgetRule, BudgetStatus, BudgetStore, ModelBudgetReport, SpineModel } from '../types';
+import { applySkins, getDefaultSkins } from './spineHelpers';
+import { measureFrame, sweepAnimation } from './performanceSweep';
+
+export const BUDGET_METRICS: BudgetMetric[] = ['bones', 'slots', 'constraints', 'vertices', 'triangles', 'drawCalls', 'textureDimension', 'textureBytes'];
+
+export const BUDGET_METRIC_LABELS: Record<BudgetMetric, string> = {
+  bones: '骨骼数',
+  slots: '插槽数',
+  constraints: '约束数',
+  vertices: '渲染顶点数 (峰值)',
+  triangles: '渲染三角形 (峰值)',
+  drawCalls: 'Draw Calls (峰值)',
+  textureDimension: '纹理边长 (px)',
+  textureBytes: '纹理大小 (bytes)',
+};
+
+// Limits the stats panel used to hardcode
+const DEFAULT_FAIL_LIMITS: Partial<Record<BudgetMetric, number>> = {
+  bones: 500,
+  vertices: 1000,
+  textureDimension: 1024,
+  textureBytes: 2 * 1024 * 1024,
+};
+
+export const createDefaultBudgetProject = (name = '默认项目'): BudgetProject => ({
+  name,
+  rules: BUDGET_METRICS.map((metric) => ({ metric, warn: null, fail: DEFAULT_FAIL_LIMITS[metric] ?? null })),
+});
+
+const STATUS_RANK: Record<BudgetStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export const compareBudgetStatus = (a: BudgetStatus, b: BudgetStatus) => STATUS_RANK[a] - STATUS_RANK[b];
+
+// Text colour of a value by budget status, shared by the stats panel and the budget report
+export const BUDGET_STATUS_CLASSES: Record<BudgetStatus, string> = {
+  pass: '',
+  warn: 'text-amber-400 font-bold',
+  fail: 'text-red-500 font-bold',
+};
+
+export const isRuleActive = (rule: BudgetRule) => rule.warn !== null || rule.fail !== null;
+
+export const evaluateRule = (rule: BudgetRule | undefined, value: number): BudgetStatus => {
+  if (!rule) return 'pass';
+  if (rule.fail !== null && value > rule.fail) return 'fail';
+  if (rule.warn !== null && value > rule.warn) return 'warn';
+  return 'pass';
+};
+
+export const getBudgetStatus = (rules: BudgetRule[], metric: BudgetMetric, value: number): BudgetStatus =>
+  evaluateRule(rules.find((rule) => rule.metric === metric), value);
+
+// Metrics measured per frame, reported at their peak over the setup pose and every animation
+const RENDER_METRICS = ['vertices', 'triangles', 'drawCalls'] as const;
+
+// Frame rate for the sweep when the skeleton does not store one
+const DEFAULT_FPS = 30;
+
+// Subject of a render metric whose peak is the setup pose itself
+const SETUP_POSE = 'setup';
+
+// Value of every metric for one model; subject names the page or the animation frame it comes from
+export type BudgetMeasurement = Record<BudgetMetric, { value: number; subject?: string }>;
+
+/**
+ * Measures a model for the budget report with its default skins, independent of what plays on the canvas.
+ * Render metrics are the peak of the setup pose and of a frame-by-frame sweep of every animation, so a
+ * model is not passed on a quiet pose while one of its frames goes over budget.
+ */
+export const measureModelBudget = (model: SpineModel): BudgetMeasurement => {
+  const data = model.spine.skeleton.data;
+  const skins = getDefaultSkins(data);
+  const skeleton = new Skeleton(data);
+  skeleton.setToSetupPose();
+  applySkins(skeleton, skins);
+  skeleton.updateWorldTransform();
+  const frame = measureFrame(skeleton);
+
+  const measurement: BudgetMeasurement = {
+    bones: { value: data.bones.length },
+    slots: { value: data.slots.length },
+    constraints: { value: data.ikConstraints.length + data.transformConstraints.length + data.pathConstraints.length },
+    vertices: { value: frame.vertices, subject: SETUP_POSE },
+    triangles: { value: frame.triangles, subject: SETUP_POSE },
+    drawCalls: { value: frame.drawCalls, subject: SETUP_POSE },
+    textureDimension: { value: 0 },
+    textureBytes: { value: 0 },
+  };
+  const fps = data.fps || DEFAULT_FPS;
+  for (const animation of data.animations) {
+    const sweep = sweepAnimation(data, skins, animation.name, [], fps);
+    if (!sweep) continue;
+    for (const metric of RENDER_METRICS) {
+      const { peak, peakFrame } = sweep.summary[metric];
+      if (peak > measurement[metric].value) measurement[metric] = { value: peak, subject: `${animation.name} @${peakFrame}` };
+    }
+  }
+  for (const page of model.textureInfo) {
+    const dimension = Math.max(page.width, page.height);
+    if (dimension > measurement.textureDimension.value) measurement.textureDimension = { value: dimension, subject: page.name };
+    if (page.size > measurement.textureBytes.value) measurement.textureBytes = { value: page.size, subject: page.name };
+  }
+  return measurement;
+};
+
+// Checks the active rules against a measurement; the model status is the worst check
+export const checkModelBudget = (model: string, measurement: BudgetMeasurement, rules: BudgetRule[]): ModelBudgetReport => {
+  const checks: BudgetCheck[] = rules.filter(isRuleActive).map((rule) => ({
+    metric: rule.metric,
+    ...measurement[rule.metric],
+    status: evaluateRule(rule, measurement[rule.metric].value),
+  }));
+  const status = checks.reduce<BudgetStatus>((worst, check) => (compareBudgetStatus(check.status, worst) > 0 ? check.status : worst), 'pass');
+  return { model, status, checks };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const parseLimit = (value: unknown): number | null =>
+  typeof value === 'number' && isFinite(value) && value >= 0 ? value : null;
+
+/**
+ * Validates an imported rule set (as produced by the rules JSON export).
+ * Throws when the structure is not recognised; unknown metrics and invalid limits are dropped.
+ */
+export const parseBudgetProject = (json: unknown): BudgetProject => {
+  const { name, rules } = isRecord(json) ? json : ({} as Record<string, unknown>);
+  if (typeof name !== 'string' || !name.trim() || !Array.isArray(rules)) {
+    throw new Error('无效的预算规则文件: 缺少 name 或 rules 字段');
+  }
+  return {
+    name: name.trim(),
+    rules: BUDGET_METRICS.map((metric) => {
+      const rule = rules.find((r): r is Record<string, unknown> => isRecord(r) && r.metric === metric);
+      return { metric, warn: parseLimit(rule?.warn), fail: parseLimit(rule?.fail) };
+    }),
+  };
+};
+
+const STORAGE_KEY = 'spine-viewer.budget-rules';
+
+// Rule sets saved in localStorage, falling back to the default project when nothing valid is stored
+export const loadBudgetStore = (): BudgetStore => {
+  try {
+    const json = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (json && Array.isArray(json.projects)) {
+      const projects: BudgetProject[] = [];
+      for (const entry of json.projects) {
+        try {
+          const project = parseBudgetProject(entry);
+          if (!projects.some((p) => p.name === project.name)) projects.push(project);
+        } catch {
+          // Skip projects that no longer validate
+        }
+      }
+      if (projects.length > 0) {
+        const activeProject = projects.some((p) => p.name === json.activeProject) ? json.activeProject : projects[0].name;
+        return { activeProject, projects };
+      }
+    }
+  } catch (err) {
+    console.warn('Failed to read saved budget rules', err);
+  }
+  const project = createDefaultBudgetProject();
+  return { activeProject: project.name, projects: [project] };
+};
+
+export const saveBudgetStore = (store: BudgetStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (err) {
+    console.warn('Failed to save budget rules', err);
+  }
+};
+
+export const getActiveBudgetProject = (store: BudgetStore): BudgetProject =>
+  store.projects.find((p) => p.name === store.activeProject) || store.projects[0];
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per model with the value and status of every checked metric. Metrics with a subject add a column for
+// it: the atlas page for textures, the peak animation frame (or "setup") for render metrics
+export const budgetReportToCsv = (reports: ModelBudgetReport[], metrics: BudgetMetric[]): string => {
+  const hasSubject = (metric: BudgetMetric) =>
+    metric === 'textureDimension' || metric === 'textureBytes' || (RENDER_METRICS as readonly BudgetMetric[]).includes(metric);
+  const header = ['model', 'status', ...metrics.flatMap((m) => (hasSubject(m) ? [m, `${m}_status`, `${m}_source`] : [m, `${m}_status`]))];
+  const rows = reports.map((report) => [
+    report.model,
+    report.status,
+    ...metrics.flatMap((metric) => {
+      const check = report.checks.find((c) => c.metric === metric);
+      const cells: (string | number)[] = check ? [check.value, check.status] : ['', ''];
+      if (hasSubject(metric)) cells.push(check?.subject || '');
+      return cells;
+    }),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n');
+};
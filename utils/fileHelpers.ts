@@ -1,23 +1,76 @@
 import { UploadedFile } from '../types';
+import { normalizePath } from './pathResolver';
+import { readZip, ZipEntry } from './zip';
 
 export const getExtension = (filename: string): string => {
   return filename.split('.').pop()?.toLowerCase() || '';
 };
 
+// Paths of files obtained from dropped directory entries or extracted from archives. Those File
+// objects have an empty webkitRelativePath, so their path is remembered here instead.
+const entryPaths = new WeakMap<File, string>();
+
+// Path of the file within the upload: the picked/dropped folder structure, or just the name
+export const getRelativePath = (file: File): string => {
+  return normalizePath(file.webkitRelativePath || entryPaths.get(file) || file.name);
+};
+
 export const processFiles = (files: File[]): UploadedFile[] => {
   return files.map((file) => ({
     name: file.name,
+    path: getRelativePath(file),
     url: URL.createObjectURL(file),
     file,
     extension: getExtension(file.name),
   }));
 };
 
+// Archive metadata and macOS resource forks that should not be treated as model files
+const isArchiveJunk = (path: string) => path.startsWith('__MACOSX/') || /(^|\/)\._/.test(path) || path.endsWith('.DS_Store');
+
+/**
+ * Replaces every .zip in the upload with the files it contains, recursively for nested archives.
+ * Extracted files keep their internal paths under the archive's own path (e.g. "hero.zip/hero/hero.atlas"),
+ * so files from different archives do not collide and pairing by directory still works.
+ */
+export const expandArchives = async (files: UploadedFile[]): Promise<UploadedFile[]> => {
+  const result: UploadedFile[] = [];
+  for (const file of files) {
+    if (file.extension !== 'zip') {
+      result.push(file);
+      continue;
+    }
+
+    let entries: ZipEntry[];
+    try {
+      entries = await readZip(new Uint8Array(await readFileAsArrayBuffer(file.file)));
+    } catch (err: any) {
+      throw new Error(`无法解压 ${file.path}: ${err.message}`);
+    } finally {
+      URL.revokeObjectURL(file.url);
+    }
+
+    const extracted = entries
+      .filter((entry) => !isArchiveJunk(entry.name))
+      .map((entry) => {
+        const path = normalizePath(entry.name);
+        const extractedFile = new File([entry.data], path.slice(path.lastIndexOf('/') + 1));
+        entryPaths.set(extractedFile, `${file.path}/${path}`);
+        return extractedFile;
+      });
+    result.push(...(await expandArchives(processFiles(extracted))));
+  }
+  return result;
+};
+
 // Recursively traverse a directory entry
 export const traverseFileTree = async (item: FileSystemEntry): Promise<File[]> => {
   return new Promise((resolve) => {
     if (item.isFile) {
-      (item as FileSystemFileEntry).file((file) => resolve([file]));
+      (item as FileSystemFileEntry).file((file) => {
+        entryPaths.set(file, item.fullPath);
+        resolve([file]);
+      });
     } else if (item.isDirectory) {
       const dirReader = (item as FileSystemDirectoryEntry).createReader();
       dirReader.readEntries(async (entries) => {
@@ -60,3 +113,29 @@ export const readFileAsText = (file: File): Promise<string> => {
     reader.readAsText(file);
   });
 };
+
+// How long a download's object URL stays valid; some browsers only start reading large blobs after the click returns
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+
+// Triggers a browser download for generated content
+export const downloadFile = (content: Blob | string, filename: string, mimeType = 'application/octet-stream') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
+
+// Human readable byte size, e.g. 1536 -> '1.5 KB'
+export const formatBytes = (bytes: number, decimals = 2) => {
+  if (!+bytes) return '0 B';
+  const k = 1024;
+  const dm = decimals < 0 ? 0 : decimals;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
+};
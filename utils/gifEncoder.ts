@@ -0,0 +1,243 @@
+// Animated GIF89a encoder with median-cut palette quantisation.
+// All frames share one global palette so colours stay stable across the loop.
+
+export interface GifEncodeOptions {
+  fps: number;
+  maxColors: number; // 2..256, includes the transparent entry when one is needed
+  alphaThreshold?: number; // Pixels below this alpha become transparent (default 128)
+}
+
+type RGB = [number, number, number];
+
+// Maximum number of opaque pixels sampled for palette generation
+const MAX_SAMPLES = 65536;
+
+/**
+ * Builds a palette with the median-cut algorithm: the colour box with the widest channel range is
+ * repeatedly split at its median until the requested number of boxes exists, then each box is averaged.
+ */
+const medianCut = (samples: Uint8Array, sampleCount: number, maxColors: number): RGB[] => {
+  if (sampleCount === 0) return [[0, 0, 0]];
+
+  const order = new Uint32Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) order[i] = i;
+
+  interface Box { start: number; end: number; channel: number; range: number }
+  const measure = (start: number, end: number): Box => {
+    const min = [255, 255, 255];
+    const max = [0, 0, 0];
+    for (let i = start; i < end; i++) {
+      const p = order[i] * 3;
+      for (let c = 0; c < 3; c++) {
+        const v = samples[p + c];
+        if (v < min[c]) min[c] = v;
+        if (v > max[c]) max[c] = v;
+      }
+    }
+    const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+    const channel = ranges.indexOf(Math.max(...ranges));
+    return { start, end, channel, range: ranges[channel] * (end - start) };
+  };
+
+  const boxes: Box[] = [measure(0, sampleCount)];
+  while (boxes.length < maxColors) {
+    // Split the box with the largest (range x population)
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].end - boxes[i].start > 1 && (target < 0 || boxes[i].range > boxes[target].range)) target = i;
+    }
+    if (target < 0 || boxes[target].range === 0) break;
+
+    const box = boxes[target];
+    const channel = box.channel;
+    const slice = Array.from(order.subarray(box.start, box.end));
+    slice.sort((a, b) => samples[a * 3 + channel] - samples[b * 3 + channel]);
+    order.set(slice, box.start);
+
+    const mid = box.start + ((box.end - box.start) >> 1);
+    boxes.splice(target, 1, measure(box.start, mid), measure(mid, box.end));
+  }
+
+  return boxes.map((box) => {
+    let r = 0, g = 0, b = 0;
+    for (let i = box.start; i < box.end; i++) {
+      const p = order[i] * 3;
+      r += samples[p];
+      g += samples[p + 1];
+      b += samples[p + 2];
+    }
+    const n = box.end - box.start;
+    return [Math.round(r / n), Math.round(g / n), Math.round(b / n)] as RGB;
+  });
+};
+
+// Maps RGB to the nearest palette entry, caching results on a 15-bit colour key
+const createColorMapper = (palette: RGB[], offset: number) => {
+  const cache = new Int16Array(32768).fill(-1);
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cached = cache[key];
+    if (cached >= 0) return cached;
+
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const dr = palette[i][0] - r;
+      const dg = palette[i][1] - g;
+      const db = palette[i][2] - b;
+      const dist = dr * dr + dg * dg + db * db;
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = i;
+      }
+    }
+    cache[key] = best + offset;
+    return best + offset;
+  };
+};
+
+// GIF variable-length-code LZW compression of palette indices
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const out: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+
+  emit(clearCode, codeSize);
+  let current = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (current << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+
+    emit(current, codeSize);
+    if (nextCode === 4096) {
+      emit(clearCode, codeSize);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = eoiCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    current = k;
+  }
+  emit(current, codeSize);
+  emit(eoiCode, codeSize);
+  if (bitCount > 0) out.push(bitBuffer & 0xff);
+
+  return Uint8Array.from(out);
+};
+
+export const encodeGif = (frames: ImageData[], options: GifEncodeOptions): Blob => {
+  if (frames.length === 0) throw new Error('No frames to encode');
+  const { width, height } = frames[0];
+  const alphaThreshold = options.alphaThreshold ?? 128;
+
+  // 1. Sample opaque colours from all frames and detect transparency
+  const totalPixels = frames.length * width * height;
+  const stride = Math.max(1, Math.floor(totalPixels / MAX_SAMPLES));
+  const samples = new Uint8Array(Math.min(totalPixels, MAX_SAMPLES + frames.length) * 3);
+  let sampleCount = 0;
+  let hasTransparency = false;
+  let counter = 0;
+  for (const frame of frames) {
+    const data = frame.data;
+    for (let p = 0; p < data.length; p += 4) {
+      if (data[p + 3] < alphaThreshold) {
+        hasTransparency = true;
+      } else if (counter++ % stride === 0 && sampleCount * 3 < samples.length) {
+        samples[sampleCount * 3] = data[p];
+        samples[sampleCount * 3 + 1] = data[p + 1];
+        samples[sampleCount * 3 + 2] = data[p + 2];
+        sampleCount++;
+      }
+    }
+  }
+
+  // 2. Build the palette; index 0 is reserved for transparency when needed
+  const maxColors = Math.min(256, Math.max(2, options.maxColors));
+  const palette = medianCut(samples, sampleCount, hasTransparency ? maxColors - 1 : maxColors);
+  const offset = hasTransparency ? 1 : 0;
+  const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length + offset)));
+  const tableSize = 1 << tableBits;
+  const mapColor = createColorMapper(palette, offset);
+
+  const out: number[] = [];
+  const writeU16 = (v: number) => out.push(v & 0xff, (v >> 8) & 0xff);
+  const writeString = (s: string) => { for (let i = 0; i < s.length; i++) out.push(s.charCodeAt(i)); };
+
+  // 3. Header, logical screen descriptor and global colour table
+  writeString('GIF89a');
+  writeU16(width);
+  writeU16(height);
+  out.push(0x80 | 0x70 | (tableBits - 1), 0, 0);
+  for (let i = 0; i < tableSize; i++) {
+    const color = i < offset ? [0, 0, 0] : palette[i - offset] || [0, 0, 0];
+    out.push(color[0], color[1], color[2]);
+  }
+
+  // Loop forever (NETSCAPE2.0 application extension)
+  out.push(0x21, 0xff, 0x0b);
+  writeString('NETSCAPE2.0');
+  out.push(0x03, 0x01);
+  writeU16(0);
+  out.push(0x00);
+
+  // 4. Frames
+  const minCodeSize = Math.max(2, tableBits);
+  const indices = new Uint8Array(width * height);
+  for (let f = 0; f < frames.length; f++) {
+    const data = frames[f].data;
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      indices[i] = hasTransparency && data[p + 3] < alphaThreshold ? 0 : mapColor(data[p], data[p + 1], data[p + 2]);
+    }
+
+    // Delays are in centiseconds; distribute rounding so the total duration stays exact
+    const delay = Math.round(((f + 1) * 100) / options.fps) - Math.round((f * 100) / options.fps);
+
+    // Graphic control extension: restore to background so transparent frames do not stack
+    out.push(0x21, 0xf9, 0x04, (2 << 2) | (hasTransparency ? 1 : 0));
+    writeU16(delay);
+    out.push(0, 0x00);
+
+    // Image descriptor
+    out.push(0x2c);
+    writeU16(0);
+    writeU16(0);
+    writeU16(width);
+    writeU16(height);
+    out.push(0x00);
+
+    // Image data in sub-blocks of up to 255 bytes
+    out.push(minCodeSize);
+    const compressed = lzwEncode(indices, minCodeSize);
+    for (let i = 0; i < compressed.length; i += 255) {
+      const block = compressed.subarray(i, i + 255);
+      out.push(block.length);
+      for (let j = 0; j < block.length; j++) out.push(block[j]);
+    }
+    out.push(0x00);
+  }
+
+  out.push(0x3b);
+  return new Blob([Uint8Array.from(out)], { type: 'image/gif' });
+};
@@ -0,0 +1,77 @@
+// Resolution of file references inside an upload (atlas page images) using the uploaded files'
+// relative paths, so the result does not depend on the order files were dropped in.
+
+export interface PathResolution {
+  path: string | null; // Chosen file, null when nothing matched
+  candidates: string[]; // Every file that matched at the tier the choice was made
+  ambiguous: boolean; // Several candidates were equally close; the first in sorted order was chosen
+}
+
+// Forward slashes, no leading './' or '/', '.' and '..' segments collapsed
+export const normalizePath = (path: string): string => {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  }
+  return segments.join('/');
+};
+
+export const dirname = (path: string): string => {
+  const normalized = normalizePath(path);
+  const index = normalized.lastIndexOf('/');
+  return index >= 0 ? normalized.slice(0, index) : '';
+};
+
+const basename = (path: string): string => {
+  const normalized = normalizePath(path);
+  return normalized.slice(normalized.lastIndexOf('/') + 1);
+};
+
+// Number of leading directory segments two directories share
+const sharedDepth = (a: string, b: string): number => {
+  const as = a ? a.split('/') : [];
+  const bs = b ? b.split('/') : [];
+  let depth = 0;
+  while (depth < as.length && depth < bs.length && as[depth] === bs[depth]) depth++;
+  return depth;
+};
+
+// Picks the candidates closest to the base directory; several at the same distance is ambiguous
+const pickClosest = (candidates: string[], baseDir: string): PathResolution => {
+  const sorted = [...candidates].sort();
+  if (sorted.length === 1) return { path: sorted[0], candidates: sorted, ambiguous: false };
+
+  const depths = sorted.map((p) => sharedDepth(dirname(p), baseDir));
+  const best = Math.max(...depths);
+  const closest = sorted.filter((_, i) => depths[i] === best);
+  return { path: closest[0], candidates: sorted, ambiguous: closest.length > 1 };
+};
+
+/**
+ * Resolves a reference (e.g. an atlas page name) written relative to `basePath`'s directory against the
+ * uploaded file paths. Tries, in order:
+ * 1. the exact relative path,
+ * 2. files whose path ends with the reference (whole path segments only),
+ * 3. files with the same file name anywhere in the upload.
+ * Within a tier, files sharing more of the base directory win.
+ */
+export const resolveRelativePath = (reference: string, basePath: string, paths: string[]): PathResolution => {
+  const baseDir = dirname(basePath);
+  const target = normalizePath(reference);
+
+  const expected = normalizePath(baseDir ? `${baseDir}/${target}` : target);
+  if (paths.includes(expected)) {
+    return { path: expected, candidates: [expected], ambiguous: false };
+  }
+
+  const suffixMatches = paths.filter((p) => p === target || p.endsWith(`/${target}`));
+  if (suffixMatches.length > 0) return pickClosest(suffixMatches, baseDir);
+
+  const name = basename(target);
+  const nameMatches = paths.filter((p) => basename(p) === name);
+  if (nameMatches.length > 0) return pickClosest(nameMatches, baseDir);
+
+  return { path: null, candidates: [], ambiguous: false };
+};
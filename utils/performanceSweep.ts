@@ -0,0 +1,90 @@
+import { AnimationState, AnimationStateData, Attachment, ClippingAttachment, MeshAttachment, RegionAttachment, Skeleton, SkeletonData } from '@pixi-spine/runtime-3.8';
+import { AnimationSweep, FrameMetrics, MetricSummary, TrackConfig } from '../types';
+import { applySkins, applyTrackLayers } from './spineHelpers';
+import { estimateDrawCalls } from './batchEstimator';
+
+export const FRAME_METRICS: (keyof FrameMetrics)[] = ['vertices', 'triangles', 'clippedTriangles', 'visibleSlots', 'attachmentSwitches', 'drawCalls'];
+
+/**
+ * Geometry cost of the skeleton's current pose, walking the draw order so triangles between a clipping
+ * attachment and its end slot are counted as clipped. Attachment switches are left at 0 for the caller.
+ */
+export const measureFrame = (skeleton: Skeleton): FrameMetrics => {
+  const metrics: FrameMetrics = { vertices: 0, triangles: 0, clippedTriangles: 0, visibleSlots: 0, attachmentSwitches: 0, drawCalls: 0 };
+  let clipping: ClippingAttachment | null = null;
+
+  for (const slot of skeleton.drawOrder) {
+    const attachment = slot.attachment;
+    if (attachment instanceof ClippingAttachment) {
+      clipping = attachment;
+    } else if (slot.color.a > 0 && (attachment instanceof RegionAttachment || attachment instanceof MeshAttachment)) {
+      const vertices = attachment instanceof RegionAttachment ? 4 : attachment.worldVerticesLength >> 1;
+      const triangles = attachment instanceof RegionAttachment ? 2 : attachment.triangles.length / 3;
+      metrics.vertices += vertices;
+      metrics.triangles += triangles;
+      metrics.visibleSlots++;
+      if (clipping) metrics.clippedTriangles += triangles;
+    }
+    if (clipping && clipping.endSlot === slot.data) clipping = null;
+  }
+  metrics.drawCalls = estimateDrawCalls(skeleton).drawCalls;
+  return metrics;
+};
+
+const summarize = (values: number[]): MetricSummary => {
+  let min = Infinity, peak = -Infinity, peakFrame = 0, total = 0;
+  values.forEach((value, frame) => {
+    min = Math.min(min, value);
+    total += value;
+    if (value > peak) {
+      peak = value;
+      peakFrame = frame;
+    }
+  });
+  return { min, avg: total / values.length, peak, peakFrame };
+};
+
+/**
+ * Steps an animation on a throwaway skeleton at `fps` (with overlay tracks applied) and measures every frame,
+ * from frame 0 through the last frame before the animation's end.
+ */
+export const sweepAnimation = (
+  data: SkeletonData,
+  skins: string[],
+  animation: string,
+  tracks: TrackConfig[],
+  fps: number
+): AnimationSweep | null => {
+  const animData = data.findAnimation(animation);
+  if (!animData) return null;
+
+  const skeleton = new Skeleton(data);
+  skeleton.setToSetupPose();
+  applySkins(skeleton, skins);
+  const state = new AnimationState(new AnimationStateData(data));
+  state.setAnimation(0, animData.name, false);
+  applyTrackLayers(state, tracks);
+
+  const frameCount = Math.max(1, Math.ceil(animData.duration * fps));
+  const frames: FrameMetrics[] = [];
+  let previous: (Attachment | null)[] | null = null;
+  for (let i = 0; i < frameCount; i++) {
+    if (i > 0) state.update(1 / fps);
+    state.apply(skeleton);
+    skeleton.updateWorldTransform();
+
+    const metrics = measureFrame(skeleton);
+    const attachments = skeleton.slots.map((slot) => slot.attachment);
+    if (previous) {
+      metrics.attachmentSwitches = attachments.filter((attachment, index) => attachment !== previous![index]).length;
+    }
+    previous = attachments;
+    frames.push(metrics);
+  }
+
+  const summary = {} as AnimationSweep['summary'];
+  for (const key of FRAME_METRICS) {
+    summary[key] = summarize(frames.map((frame) => frame[key]));
+  }
+  return { animation: animData.name, fps, frames, summary };
+};
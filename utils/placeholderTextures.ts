@@ -0,0 +1,37 @@
+import * as PIXI from 'pixi.js';
+
+// Stand-in textures for lenient loading, chosen to be impossible to mistake for real art
+
+const CHECKER_SIZE = 64;
+const CHECKER_CELL = 8;
+
+let checkerTexture: PIXI.Texture | null = null;
+
+// Magenta/black checkerboard shared by every placeholder attachment
+export const getCheckerTexture = (): PIXI.Texture => {
+  if (!checkerTexture) {
+    const canvas = document.createElement('canvas');
+    canvas.width = CHECKER_SIZE;
+    canvas.height = CHECKER_SIZE;
+    const ctx = canvas.getContext('2d')!;
+    for (let y = 0; y < CHECKER_SIZE; y += CHECKER_CELL) {
+      for (let x = 0; x < CHECKER_SIZE; x += CHECKER_CELL) {
+        ctx.fillStyle = ((x + y) / CHECKER_CELL) % 2 === 0 ? '#ff00ff' : '#1a1a1a';
+        ctx.fillRect(x, y, CHECKER_CELL, CHECKER_CELL);
+      }
+    }
+    checkerTexture = PIXI.Texture.from(canvas);
+  }
+  return checkerTexture;
+};
+
+// Solid-colour texture, used in place of a missing atlas page so its regions still have valid frames
+export const createSolidTexture = (width: number, height: number, color: string): PIXI.Texture => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return PIXI.Texture.from(canvas);
+};
@@ -0,0 +1,114 @@
+import * as PIXI from 'pixi.js';
+import { TextureAtlas } from '@pixi-spine/base';
+import { AlphaMode, PageAlphaInfo } from '../types';
+
+// Pixels below this alpha are skipped: the canvas round trip quantizes their colour too much to judge
+const MIN_ALPHA = 64;
+// Opaque pixels look the same either way
+const MAX_ALPHA = 250;
+// Semi-transparent pixels needed before the image is judged at all
+const MIN_SAMPLES = 100;
+// Share of samples with colour above alpha tolerated in a premultiplied image (rounding, resampling)
+const MAX_VIOLATION_RATIO = 0.01;
+// Longest side of the downscaled copy inspected; averaging keeps premultiplied colour within its alpha
+// and straight-alpha edges above it, so the verdict survives the resampling
+const MAX_SAMPLE_SIZE = 256;
+
+export interface AlphaState {
+  pma: boolean; // Mode the page textures are uploaded with
+  source: 'manual' | 'atlas' | 'detected' | 'default';
+  declared: boolean | null;
+  detected: boolean | null;
+  mismatch: string | null; // Why the chosen mode is probably wrong, null when consistent
+}
+
+/**
+ * Guesses whether an image stores premultiplied colour. A premultiplied pixel can never have a
+ * channel above its alpha, while straight-alpha art almost always has bright semi-transparent edges.
+ * Returns false when such pixels are found, true when enough bright semi-transparent pixels all stay
+ * within their alpha, and null when the image has too few semi-transparent pixels to tell.
+ */
+export const detectPremultipliedAlpha = (img: HTMLImageElement): boolean | null => {
+  if (!img.width || !img.height) return null;
+  const scale = Math.min(1, MAX_SAMPLE_SIZE / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  let data: Uint8ClampedArray;
+  try {
+    data = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  } catch {
+    return null;
+  }
+
+  let samples = 0;
+  let violations = 0;
+  let saturated = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3];
+    if (a < MIN_ALPHA || a > MAX_ALPHA) continue;
+    const max = Math.max(data[i], data[i + 1], data[i + 2]);
+    // getImageData un-premultiplies, which can push a premultiplied channel a few steps past alpha
+    const tolerance = Math.ceil(255 / a);
+    samples++;
+    if (max > a + tolerance) violations++;
+    else if (max >= a - tolerance) saturated++;
+  }
+
+  if (samples < MIN_SAMPLES) return null;
+  if (violations / samples > MAX_VIOLATION_RATIO) return false;
+  // Dark art keeps its colour below alpha in either mode; only bright edges prove premultiplication
+  return saturated / samples > MAX_VIOLATION_RATIO ? true : null;
+};
+
+// Combines the atlas declaration, pixel detection and the user's choice into the mode to render with
+export const resolveAlphaState = (pages: PageAlphaInfo[], mode: AlphaMode): AlphaState => {
+  const declaredValues = pages.map((p) => p.declared).filter((v): v is boolean => v !== null);
+  const detectedValues = pages.map((p) => p.detected).filter((v): v is boolean => v !== null);
+  const declared = declaredValues.length > 0 ? declaredValues.some((v) => v) : null;
+  const pagesDisagree = detectedValues.includes(true) && detectedValues.includes(false);
+  const detected = detectedValues.length > 0 && !pagesDisagree ? detectedValues[0] : null;
+
+  let pma: boolean;
+  let source: AlphaState['source'];
+  if (mode !== 'auto') {
+    pma = mode === 'pma';
+    source = 'manual';
+  } else if (declared !== null) {
+    pma = declared;
+    source = 'atlas';
+  } else if (detected !== null) {
+    pma = detected;
+    source = 'detected';
+  } else {
+    pma = false;
+    source = 'default';
+  }
+
+  const label = (value: boolean) => (value ? '预乘 (PMA)' : '直通 (Straight)');
+  let mismatch: string | null = null;
+  if (pagesDisagree) {
+    mismatch = '各页面图片的检测结果不一致，部分页面可能以错误的模式导出';
+  } else if (detected !== null && detected !== pma) {
+    const chosen = source === 'manual' ? `已手动设为${label(pma)}` : `图集声明 pma: ${pma}`;
+    mismatch = `${chosen}，但图片像素看起来是${label(detected)}。边缘可能出现暗边或白边`;
+  }
+
+  return { pma, source, declared, detected, mismatch };
+};
+
+// Uploads every page of the atlas with the same alpha mode; already-premultiplied images must not be multiplied again.
+// Page textures belong to a single model (see SpineLoaderService), so other models keep their own mode
+export const applyAlphaMode = (atlas: TextureAtlas, pma: boolean) => {
+  const alphaMode = pma ? PIXI.ALPHA_MODES.PMA : PIXI.ALPHA_MODES.UNPACK;
+  for (const page of atlas.pages) {
+    const baseTexture = page.baseTexture;
+    if (!baseTexture || baseTexture.alphaMode === alphaMode) continue;
+    baseTexture.alphaMode = alphaMode;
+    baseTexture.update();
+  }
+};
@@ -0,0 +1,128 @@
+import { SkeletonInfo } from '../types';
+
+// Only skeletons exported from this major.minor version can be parsed by the bundled runtime
+export const SUPPORTED_VERSION = '3.8';
+
+// Sequential reader for the header of a binary .skel file
+class HeaderReader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  // Spine's variable-length integer: 7 bits per byte, low bits first
+  readVarInt(): number {
+    let result = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const b = this.readByte();
+      result |= (b & 0x7f) << shift;
+      if ((b & 0x80) === 0) return result >>> 0;
+    }
+    throw new Error('Invalid varint');
+  }
+
+  // Length-prefixed UTF-8 string; length 0 means null, 1 means empty
+  readString(): string | null {
+    const length = this.readVarInt();
+    if (length === 0) return null;
+    if (length - 1 > this.bytes.length - this.offset) throw new Error('String out of range');
+    const text = new TextDecoder().decode(this.bytes.subarray(this.offset, this.offset + length - 1));
+    this.offset += length - 1;
+    return text;
+  }
+
+  readByte(): number {
+    if (this.offset >= this.bytes.length) throw new Error('Unexpected end of header');
+    return this.bytes[this.offset++];
+  }
+
+  readInt32(): number {
+    if (this.offset + 4 > this.bytes.length) throw new Error('Unexpected end of header');
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  skip(count: number) {
+    this.offset += count;
+  }
+}
+
+const VERSION_PATTERN = /^\d+\.\d+(\.\d+)?/;
+
+const parseMajorMinor = (version: string): [number, number] => {
+  const [major, minor] = version.split('.').map((n) => parseInt(n, 10));
+  return [major || 0, minor || 0];
+};
+
+// Reads the nonessential flag that follows the version string and the skeleton size fields
+const readNonessential = (reader: HeaderReader, version: string): boolean | null => {
+  const [major, minor] = parseMajorMinor(version);
+  // 3.7 and older store width/height only; 3.8+ adds x/y; 4.2 adds the reference scale
+  let floats = major < 3 || (major === 3 && minor < 8) ? 2 : 4;
+  if (major > 4 || (major === 4 && minor >= 2)) floats++;
+  try {
+    reader.skip(floats * 4);
+    return reader.readByte() !== 0;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads hash, version and the nonessential flag from the start of a binary .skel file without
+ * parsing the rest. 3.x stores the hash as a string; 4.x stores it as a 64-bit integer, so both
+ * layouts are tried. Fields that cannot be read are null.
+ */
+export const readBinaryHeader = (bytes: Uint8Array): SkeletonInfo => {
+  // 3.x: string hash, string version
+  try {
+    const reader = new HeaderReader(bytes);
+    const hash = reader.readString();
+    const version = reader.readString();
+    if (version && VERSION_PATTERN.test(version)) {
+      return { version, hash, nonessential: readNonessential(reader, version) };
+    }
+  } catch {
+    // Fall through to the 4.x layout
+  }
+
+  // 4.x: two int32 hash halves, string version
+  try {
+    const reader = new HeaderReader(bytes);
+    const low = reader.readInt32();
+    const high = reader.readInt32();
+    const version = reader.readString();
+    if (version && VERSION_PATTERN.test(version)) {
+      const hash = low === 0 && high === 0 ? null : (high >>> 0).toString(16) + (low >>> 0).toString(16);
+      return { version, hash, nonessential: readNonessential(reader, version) };
+    }
+  } catch {
+    // Unknown layout
+  }
+
+  return { version: null, hash: null, nonessential: null };
+};
+
+/**
+ * Reads hash and version from the `skeleton` block of a JSON export. JSON has no explicit
+ * nonessential flag; fps and the images path are only written when nonessential data was exported.
+ */
+export const readJsonHeader = (json: any): SkeletonInfo => {
+  const skeleton = json?.skeleton || {};
+  return {
+    version: typeof skeleton.spine === 'string' ? skeleton.spine : null,
+    hash: typeof skeleton.hash === 'string' ? skeleton.hash : null,
+    nonessential: 'fps' in skeleton || 'images' in skeleton || 'audio' in skeleton,
+  };
+};
+
+// True when the version is known to be readable by the 3.8 runtime (unknown versions are attempted)
+export const isSupportedVersion = (version: string | null): boolean => {
+  if (!version) return true;
+  const [major, minor] = parseMajorMinor(version);
+  const [supportedMajor, supportedMinor] = parseMajorMinor(SUPPORTED_VERSION);
+  return major === supportedMajor && minor === supportedMinor;
+};
@@ -0,0 +1,134 @@
+import { Attachment, Bone, BoundingBoxAttachment, MeshAttachment, RegionAttachment, Skeleton, SkeletonBounds, Slot } from '@pixi-spine/runtime-3.8';
+
+// What a click on the canvas hit, in skeleton space
+export interface PickResult {
+  x: number;
+  y: number;
+  slot: string | null; // Topmost slot whose region or mesh contains the point
+  attachment: string | null;
+  bone: string | null; // Nearest bone, only when no slot was hit
+  boundingBoxes: { slot: string; attachment: string }[]; // Every bounding box containing the point
+}
+
+/**
+ * World vertices of a region (4 corners) or mesh attachment, as drawn by the debug renderer.
+ * Returns null for attachments without renderable geometry.
+ */
+export const computeAttachmentWorldVertices = (slot: Slot, attachment: Attachment): Float32Array | null => {
+  if (attachment instanceof RegionAttachment) {
+    const vertices = new Float32Array(8);
+    attachment.computeWorldVertices(slot.bone, vertices, 0, 2);
+    return vertices;
+  }
+  if (attachment instanceof MeshAttachment) {
+    const vertices = new Float32Array(attachment.worldVerticesLength);
+    attachment.computeWorldVertices(slot, 0, attachment.worldVerticesLength, vertices, 0, 2);
+    return vertices;
+  }
+  return null;
+};
+
+// Even-odd test against a polygon stored as x,y pairs
+const polygonContains = (vertices: ArrayLike<number>, count: number, x: number, y: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = count - 2; i < count; j = i, i += 2) {
+    const xi = vertices[i], yi = vertices[i + 1];
+    const xj = vertices[j], yj = vertices[j + 1];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const triangleContains = (vertices: ArrayLike<number>, a: number, b: number, c: number, x: number, y: number): boolean => {
+  const cross = (i: number, j: number) =>
+    (vertices[j] - vertices[i]) * (y - vertices[i + 1]) - (vertices[j + 1] - vertices[i + 1]) * (x - vertices[i]);
+  const d1 = cross(a, b), d2 = cross(b, c), d3 = cross(c, a);
+  const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+  const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+  return !(hasNegative && hasPositive);
+};
+
+const attachmentContains = (slot: Slot, x: number, y: number): boolean => {
+  const attachment = slot.attachment;
+  if (!attachment) return false;
+  const vertices = computeAttachmentWorldVertices(slot, attachment);
+  if (!vertices) return false;
+  if (attachment instanceof MeshAttachment) {
+    const triangles = attachment.triangles;
+    for (let i = 0; i < triangles.length; i += 3) {
+      if (triangleContains(vertices, triangles[i] * 2, triangles[i + 1] * 2, triangles[i + 2] * 2, x, y)) return true;
+    }
+    return false;
+  }
+  return polygonContains(vertices, vertices.length, x, y);
+};
+
+// Topmost slot (last in draw order) whose attachment geometry contains the point
+export const pickSlot = (skeleton: Skeleton, x: number, y: number, isPickable: (slot: Slot) => boolean = () => true): Slot | null => {
+  const drawOrder = skeleton.drawOrder;
+  for (let i = drawOrder.length - 1; i >= 0; i--) {
+    const slot = drawOrder[i];
+    if (slot.color.a > 0 && isPickable(slot) && attachmentContains(slot, x, y)) return slot;
+  }
+  return null;
+};
+
+// Distance from a point to the bone's segment (origin to tip) in skeleton space
+export const boneDistance = (bone: Bone, x: number, y: number): number => {
+  const m = bone.matrix;
+  const dx = m.a * bone.data.length;
+  const dy = m.b * bone.data.length;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - bone.worldX) * dx + (y - bone.worldY) * dy) / lengthSq)) : 0;
+  return Math.hypot(x - (bone.worldX + dx * t), y - (bone.worldY + dy * t));
+};
+
+// Bone whose segment passes closest to the point, within maxDistance
+export const pickBone = (skeleton: Skeleton, x: number, y: number, maxDistance: number): Bone | null => {
+  let best: Bone | null = null;
+  let bestDistance = maxDistance;
+  for (const bone of skeleton.bones) {
+    const distance = boneDistance(bone, x, y);
+    if (distance <= bestDistance) {
+      best = bone;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+// Bounding box attachments containing the point, tested with SkeletonBounds as the runtime would for hit detection
+export const hitTestBoundingBoxes = (skeleton: Skeleton, x: number, y: number): PickResult['boundingBoxes'] => {
+  const bounds = new SkeletonBounds();
+  bounds.update(skeleton, true);
+  if (!bounds.aabbContainsPoint(x, y)) return [];
+
+  const hits: PickResult['boundingBoxes'] = [];
+  bounds.polygons.forEach((polygon, i) => {
+    if (!bounds.containsPointPolygon(polygon, x, y)) return;
+    const box: BoundingBoxAttachment = bounds.boundingBoxes[i];
+    const slot = skeleton.slots.find((s) => s.attachment === box);
+    hits.push({ slot: slot ? slot.data.name : '', attachment: box.name });
+  });
+  return hits;
+};
+
+// Picks at a point in skeleton space: slot first, then the nearest bone, plus every bounding box hit
+export const pickAt = (
+  skeleton: Skeleton,
+  x: number,
+  y: number,
+  boneRadius: number,
+  isPickable?: (slot: Slot) => boolean
+): PickResult => {
+  const slot = pickSlot(skeleton, x, y, isPickable);
+  const bone = slot ? null : pickBone(skeleton, x, y, boneRadius);
+  return {
+    x,
+    y,
+    slot: slot ? slot.data.name : null,
+    attachment: slot?.attachment ? slot.attachment.name : null,
+    bone: bone ? bone.data.name : null,
+    boundingBoxes: hitTestBoundingBoxes(skeleton, x, y),
+  };
+};
@@ -0,0 +1,360 @@
+import { MixBlend, Vector2, settings } from '@pixi-spine/base';
+import { Animation, AnimationState, AnimationStateData, Attachment, AttachmentTimeline, Bone, DrawOrderTimeline, EventTimeline, IkConstraint, PathConstraint, RotateTimeline, Skeleton, SkeletonData, Skin, SkinEntry, TransformConstraint, TranslateTimeline } from '@pixi-spine/runtime-3.8';
+import { ConstraintKind, MixConfig, PoseOverrides, SkeletonBounds, TrackConfig, TrackMixBlend } from '../types';
+
+const MIX_BLENDS: Record<TrackMixBlend, MixBlend> = {
+  replace: MixBlend.replace,
+  add: MixBlend.add,
+};
+
+/**
+ * Builds the skin to apply for a list of skin names.
+ * A single name returns that skin directly, several names are merged into one custom skin
+ * (for modular outfits). Returns null when nothing valid is selected.
+ */
+export const buildSkin = (data: SkeletonData, names: string[]): Skin | null => {
+  const skins = names
+    .map((name) => data.findSkin(name))
+    .filter((skin): skin is Skin => !!skin);
+
+  if (skins.length === 0) return null;
+  if (skins.length === 1) return skins[0];
+
+  const combined = new Skin(skins.map((s) => s.name).join('+'));
+  for (const skin of skins) {
+    combined.addSkin(skin);
+  }
+  return combined;
+};
+
+// Applies the selected skin(s) and resets slots so the new attachments become visible.
+// With nothing valid selected the default skin is used (null when the skeleton has none), as the runtime would.
+export const applySkins = (skeleton: Skeleton, names: string[]) => {
+  const skin = buildSkin(skeleton.data, names);
+  skeleton.setSkin(skin !== null ? skin : skeleton.data.defaultSkin);
+  skeleton.setSlotsToSetupPose();
+};
+
+/**
+ * Picks the initial skin selection for a skeleton.
+ * Uses the default skin when it has attachments, otherwise the first named skin,
+ * so models authored only with custom skins do not render empty.
+ */
+export const getDefaultSkins = (data: SkeletonData): string[] => {
+  if (data.defaultSkin && data.defaultSkin.getAttachments().length > 0) {
+    return [data.defaultSkin.name];
+  }
+  return data.skins.length > 0 ? [data.skins[0].name] : [];
+};
+
+// Attachments a slot can show with the skeleton's current skin, falling back to the default skin like Skeleton.getAttachment
+export const getSlotAttachments = (skeleton: Skeleton, slotIndex: number): { name: string; attachment: Attachment }[] => {
+  const entries: SkinEntry[] = [];
+  const seen = new Set<string>();
+  for (const skin of [skeleton.skin, skeleton.data.defaultSkin]) {
+    if (!skin) continue;
+    const slotEntries: SkinEntry[] = [];
+    skin.getAttachmentsForSlot(slotIndex, slotEntries);
+    for (const entry of slotEntries) {
+      if (seen.has(entry.name)) continue;
+      seen.add(entry.name);
+      entries.push(entry);
+    }
+  }
+  return entries.map((entry) => ({ name: entry.name, attachment: entry.attachment }));
+};
+
+// A constraint of the skeleton together with its type
+type FoundConstraint =
+  | { kind: 'ik'; constraint: IkConstraint }
+  | { kind: 'transform'; constraint: TransformConstraint }
+  | { kind: 'path'; constraint: PathConstraint };
+
+// Key of a constraint in the override map; names are only unique per constraint type
+export const getConstraintKey = (kind: ConstraintKind, name: string) => `${kind}:${name}`;
+
+const findConstraint = (skeleton: Skeleton, key: string): FoundConstraint | null => {
+  const separator = key.indexOf(':');
+  const kind = key.slice(0, separator) as ConstraintKind;
+  const name = key.slice(separator + 1);
+  if (kind === 'ik') {
+    const constraint = skeleton.findIkConstraint(name);
+    return constraint ? { kind, constraint } : null;
+  }
+  if (kind === 'transform') {
+    const constraint = skeleton.findTransformConstraint(name);
+    return constraint ? { kind, constraint } : null;
+  }
+  const constraint = skeleton.findPathConstraint(name);
+  return constraint ? { kind: 'path', constraint } : null;
+};
+
+// Zeroes the mixes of a constraint so it contributes nothing
+const disableConstraint = (found: FoundConstraint) => {
+  switch (found.kind) {
+    case 'ik':
+      found.constraint.mix = 0;
+      break;
+    case 'transform':
+      found.constraint.rotateMix = found.constraint.translateMix = found.constraint.scaleMix = found.constraint.shearMix = 0;
+      break;
+    case 'path':
+      found.constraint.rotateMix = found.constraint.translateMix = 0;
+      break;
+  }
+};
+
+// Restores a constraint's overridable properties from its data, for when an override is removed and no timeline keys them
+export const resetConstraint = (skeleton: Skeleton, key: string) => {
+  const found = findConstraint(skeleton, key);
+  if (!found) return;
+  switch (found.kind) {
+    case 'ik': {
+      const { constraint } = found;
+      constraint.mix = constraint.data.mix;
+      constraint.softness = constraint.data.softness;
+      constraint.bendDirection = constraint.data.bendDirection;
+      break;
+    }
+    case 'transform': {
+      const { constraint } = found;
+      constraint.rotateMix = constraint.data.rotateMix;
+      constraint.translateMix = constraint.data.translateMix;
+      constraint.scaleMix = constraint.data.scaleMix;
+      constraint.shearMix = constraint.data.shearMix;
+      break;
+    }
+    case 'path': {
+      const { constraint } = found;
+      constraint.position = constraint.data.position;
+      constraint.spacing = constraint.data.spacing;
+      constraint.rotateMix = constraint.data.rotateMix;
+      constraint.translateMix = constraint.data.translateMix;
+      break;
+    }
+  }
+};
+
+/**
+ * Writes the inspector overrides over the animated pose. Attachment locks the current skin cannot satisfy
+ * are skipped; a null lock clears the slot. Dragged bone poses replace the local transform fields they set, so a
+ * rotated bone keeps its animated translation. Constraint overrides set their values (a disabled constraint has its
+ * mixes zeroed). The following updateWorldTransform then re-solves the constraints, so a moved IK target drags its
+ * chain along.
+ */
+export const applyPoseOverrides = (skeleton: Skeleton, overrides: PoseOverrides) => {
+  for (const [slotName, attachmentName] of Object.entries(overrides.attachments)) {
+    const slot = skeleton.findSlot(slotName);
+    if (!slot) continue;
+    if (attachmentName === null) skeleton.setAttachment(slotName);
+    else if (skeleton.getAttachment(slot.data.index, attachmentName)) skeleton.setAttachment(slotName, attachmentName);
+  }
+  for (const [boneName, pose] of Object.entries(overrides.bones)) {
+    const bone = skeleton.findBone(boneName);
+    if (!bone) continue;
+    if (pose.x !== undefined) bone.x = pose.x;
+    if (pose.y !== undefined) bone.y = pose.y;
+    if (pose.rotation !== undefined) bone.rotation = pose.rotation;
+  }
+  for (const [key, override] of Object.entries(overrides.constraints)) {
+    const found = findConstraint(skeleton, key);
+    if (!found) continue;
+    Object.assign(found.constraint, override.values);
+    if (override.disabled) disableConstraint(found);
+  }
+};
+
+/**
+ * Installs the single post-apply step of an AnimationState: every AnimationState.apply is followed by
+ * applyPoseOverrides, so the overrides land after the animation and before Spine.update's updateWorldTransform.
+ * Install once per state; later changes only need to change what `getOverrides` returns.
+ */
+export const installPoseOverrides = (state: AnimationState, getOverrides: () => PoseOverrides) => {
+  const apply = state.apply.bind(state);
+  state.apply = (skeleton: Skeleton) => {
+    const applied = apply(skeleton);
+    applyPoseOverrides(skeleton, getOverrides());
+    return applied;
+  };
+};
+
+// Converts a skeleton-space point into the space the bone's local x/y/rotation are expressed in (its parent's)
+export const worldToParentLocal = (bone: Bone, x: number, y: number): { x: number; y: number } => {
+  if (bone.parent) {
+    const point = new Vector2(x, y);
+    bone.parent.worldToLocal(point);
+    return { x: point.x, y: point.y };
+  }
+  // Root bones are placed by the skeleton itself, flipped on y when the runtime is y-down
+  const skeleton = bone.skeleton;
+  const scaleY = settings.yDown ? -skeleton.scaleY : skeleton.scaleY;
+  return { x: (x - skeleton.x) / skeleton.scaleX, y: (y - skeleton.y) / scaleY };
+};
+
+/**
+ * Syncs the overlay tracks (index 1 and up) of an AnimationState with the given configs.
+ * Entries are only restarted when their animation or loop changes; alpha and mixBlend are read by
+ * AnimationState on every apply, so they are updated on the running entry. Tracks that are empty or
+ * no longer configured are mixed out to the lower tracks.
+ */
+export const applyTrackLayers = (state: AnimationState, tracks: TrackConfig[]) => {
+  const data = state.data.skeletonData;
+  const trackCount = Math.max(state.tracks.length, tracks.length + 1);
+
+  for (let trackIndex = 1; trackIndex < trackCount; trackIndex++) {
+    const config = tracks[trackIndex - 1];
+    const entry = state.getCurrent(trackIndex);
+    const isEmpty = !entry || entry.animation === AnimationState.emptyAnimation;
+
+    if (!config || !config.animation || !data.findAnimation(config.animation)) {
+      if (!isEmpty) state.setEmptyAnimation(trackIndex, 0);
+      continue;
+    }
+
+    const target = isEmpty || entry.animation.name !== config.animation || entry.loop !== config.loop
+      ? state.setAnimation(trackIndex, config.animation, config.loop)
+      : entry;
+    target.mixBlend = MIX_BLENDS[config.mixBlend];
+    target.alpha = config.alpha;
+  }
+};
+
+// Writes a mix config into AnimationStateData, skipping pairs whose animations do not exist
+export const applyMixConfig = (stateData: AnimationStateData, config: MixConfig) => {
+  const data = stateData.skeletonData;
+  stateData.defaultMix = config.defaultMix;
+  stateData.animationToMixTime = {};
+
+  for (const [from, targets] of Object.entries(config.mixes)) {
+    if (!data.findAnimation(from)) continue;
+    for (const [to, duration] of Object.entries(targets)) {
+      if (!data.findAnimation(to)) continue;
+      stateData.setMix(from, to, duration);
+    }
+  }
+};
+
+// Number of explicit from -> to entries in a mix config
+export const countMixEntries = (config: MixConfig): number => {
+  let count = 0;
+  for (const targets of Object.values(config.mixes)) {
+    count += Object.keys(targets).length;
+  }
+  return count;
+};
+
+/**
+ * Validates an imported mix config (as produced by the mix editor's JSON export).
+ * Throws when the structure is not recognised; invalid durations are dropped.
+ */
+export const parseMixConfig = (json: any): MixConfig => {
+  if (!json || typeof json !== 'object' || typeof json.mixes !== 'object' || json.mixes === null) {
+    throw new Error('无效的过渡配置文件: 缺少 mixes 字段');
+  }
+
+  const mixes: MixConfig['mixes'] = {};
+  for (const [from, targets] of Object.entries(json.mixes)) {
+    if (!targets || typeof targets !== 'object') continue;
+    for (const [to, duration] of Object.entries(targets as Record<string, unknown>)) {
+      if (typeof duration !== 'number' || !isFinite(duration) || duration < 0) continue;
+      (mixes[from] ||= {})[to] = duration;
+    }
+  }
+
+  const defaultMix = typeof json.defaultMix === 'number' && json.defaultMix >= 0 ? json.defaultMix : 0;
+  return { defaultMix, mixes };
+};
+
+// Event keys of an animation (from its EventTimeline), sorted by time
+export const getEventKeys = (animation: Animation): { time: number; name: string }[] => {
+  const keys: { time: number; name: string }[] = [];
+  for (const timeline of animation.timelines) {
+    if (timeline instanceof EventTimeline) {
+      for (const event of timeline.events) {
+        keys.push({ time: event.time, name: event.data.name });
+      }
+    }
+  }
+  return keys.sort((a, b) => a.time - b.time);
+};
+
+// Indices (into skeleton.bones) of the bones an animation keys directly. Scale and shear timelines extend TranslateTimeline.
+export const getAnimatedBoneIndices = (animation: Animation): Set<number> => {
+  const indices = new Set<number>();
+  for (const timeline of animation.timelines) {
+    if (timeline instanceof RotateTimeline || timeline instanceof TranslateTimeline) {
+      indices.add(timeline.boneIndex);
+    }
+  }
+  return indices;
+};
+
+// Indices (into skeleton.slots) of the slots an animation moves in the draw order or switches attachments on
+export const getAnimatedSlotIndices = (animation: Animation): { drawOrder: Set<number>; attachment: Set<number> } => {
+  const drawOrder = new Set<number>();
+  const attachment = new Set<number>();
+  for (const timeline of animation.timelines) {
+    if (timeline instanceof AttachmentTimeline) {
+      attachment.add(timeline.slotIndex);
+    } else if (timeline instanceof DrawOrderTimeline) {
+      // Each key maps draw order position -> slot index, null keys restore the setup order
+      for (const order of timeline.drawOrders) {
+        if (!order) continue;
+        order.forEach((slotIndex, position) => {
+          if (slotIndex !== position) drawOrder.add(slotIndex);
+        });
+      }
+    }
+  }
+  return { drawOrder, attachment };
+};
+
+/**
+ * Measures the skeleton's attachment bounds in skeleton space on a throwaway skeleton, so the live
+ * instance is not disturbed. Without an animation the setup pose is measured; with one, the bounds
+ * are the union over the whole animation (with overlay tracks applied) sampled at `samplesPerSecond`.
+ * Returns null when nothing visible is attached.
+ */
+export const measureSkeletonBounds = (
+  data: SkeletonData,
+  skins: string[],
+  animation: string | null,
+  tracks: TrackConfig[] = [],
+  samplesPerSecond = 30
+): SkeletonBounds | null => {
+  const skeleton = new Skeleton(data);
+  skeleton.setToSetupPose();
+  applySkins(skeleton, skins);
+
+  const offset = new Vector2();
+  const size = new Vector2();
+  const temp: number[] = [];
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const addPose = () => {
+    skeleton.updateWorldTransform();
+    skeleton.getBounds(offset, size, temp);
+    if (!isFinite(offset.x) || size.x <= 0 || size.y <= 0) return;
+    minX = Math.min(minX, offset.x);
+    minY = Math.min(minY, offset.y);
+    maxX = Math.max(maxX, offset.x + size.x);
+    maxY = Math.max(maxY, offset.y + size.y);
+  };
+
+  const animData = animation ? data.findAnimation(animation) : null;
+  if (!animData) {
+    addPose();
+  } else {
+    const state = new AnimationState(new AnimationStateData(data));
+    state.setAnimation(0, animData.name, true);
+    applyTrackLayers(state, tracks);
+    const steps = Math.max(1, Math.ceil(animData.duration * samplesPerSecond));
+    for (let i = 0; i <= steps; i++) {
+      if (i > 0) state.update(animData.duration / steps);
+      state.apply(skeleton);
+      addPose();
+    }
+  }
+
+  if (!isFinite(minX)) return null;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
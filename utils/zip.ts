@@ -0,0 +1,175 @@
+// Minimal zip archive support: a writer (STORE, no compression) for exports and a reader for uploads.
+// Exported images are already compressed, so deflating them again gains little.
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, using '/' separators
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// DOS date/time fields for the current moment
+const dosDateTime = () => {
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  return { time, date };
+};
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    // Local file header
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // STORE
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, entry.data);
+
+    // Central directory record
+    const record = new DataView(new ArrayBuffer(46));
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(4, 20, true); // Version made by
+    record.setUint16(6, 20, true);
+    record.setUint16(8, 0x0800, true);
+    record.setUint16(10, 0, true);
+    record.setUint16(12, time, true);
+    record.setUint16(14, date, true);
+    record.setUint32(16, crc, true);
+    record.setUint32(20, size, true);
+    record.setUint32(24, size, true);
+    record.setUint16(28, name.length, true);
+    record.setUint32(42, offset, true);
+    const recordBytes = new Uint8Array(46 + name.length);
+    recordBytes.set(new Uint8Array(record.buffer), 0);
+    recordBytes.set(name, 46);
+    central.push(recordBytes);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((sum, r) => sum + r.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+const SIG_END_OF_CENTRAL_DIR = 0x06054b50;
+const SIG_CENTRAL_DIR = 0x02014b50;
+const SIG_LOCAL_FILE = 0x04034b50;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Entry names without the UTF-8 flag use the creator's local code page; archives from Chinese
+// Windows machines are GBK, so fall back to that when the bytes are not valid UTF-8.
+const decodeName = (bytes: Uint8Array, utf8: boolean): string => {
+  if (utf8) return new TextDecoder().decode(bytes);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('gbk').decode(bytes);
+  }
+};
+
+/**
+ * Reads every file entry of a zip archive (STORE and DEFLATE, no zip64 or encryption).
+ * Entries are located through the central directory, so sizes are correct even when the archive
+ * uses trailing data descriptors. Directory entries are skipped.
+ */
+export const readZip = async (data: Uint8Array): Promise<ZipEntry[]> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end record is at least 22 bytes from the end, followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === SIG_END_OF_CENTRAL_DIR) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('不是有效的 zip 压缩包');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) throw new Error('不支持 Zip64 格式的压缩包');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== SIG_CENTRAL_DIR) throw new Error('压缩包目录已损坏');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decodeName(data.subarray(offset + 46, offset + 46 + nameLength), (flags & FLAG_UTF8) !== 0);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & FLAG_ENCRYPTED) throw new Error(`不支持加密的文件: ${name}`);
+
+    if (view.getUint32(localOffset, true) !== SIG_LOCAL_FILE) throw new Error(`文件头已损坏: ${name}`);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORE) {
+      entries.push({ name, data: raw.slice() });
+    } else if (method === METHOD_DEFLATE) {
+      entries.push({ name, data: await inflateRaw(raw) });
+    } else {
+      throw new Error(`不支持的压缩方式 (${method}): ${name}`);
+    }
+  }
+
+  return entries;
+};